@@ -0,0 +1,32 @@
+/**
+ * Thrown when a chapter needs coins to read. The message is shown to the
+ * reader as is, so it says what to do rather than what failed.
+ */
+export class ChapterLockedError extends Error {
+  override readonly name = "ChapterLockedError";
+
+  constructor(
+    readonly chapterId: string,
+    /** Host of the mirror in use, where the chapter can be unlocked */
+    readonly siteHost: string,
+    readonly coins?: number,
+    readonly freeDate?: Date,
+  ) {
+    super(lockedMessage(siteHost, coins, freeDate));
+  }
+}
+
+function lockedMessage(
+  siteHost: string,
+  coins?: number,
+  freeDate?: Date,
+): string {
+  const unlock =
+    coins !== undefined
+      ? `Unlock it for ${coins} coins on ${siteHost}`
+      : `Unlock it on ${siteHost}`;
+  const free = freeDate
+    ? ` or wait until it is free on ${freeDate.toISOString().slice(0, 10)}`
+    : "";
+  return `This chapter is locked. ${unlock}${free}.`;
+}
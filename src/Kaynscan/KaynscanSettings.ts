@@ -0,0 +1,37 @@
+import { Section, ToggleRow } from "@paperback/types";
+import { Preference } from "../utils/preferences";
+import {
+  sourcePreferences,
+  SourceSettingsForm,
+  SourceSettingsOptions,
+} from "../utils/settings-form";
+
+export const preferences = {
+  ...sourcePreferences("update"),
+  /** Leave coin-locked chapters out of chapter lists */
+  skipLockedChapters: new Preference<boolean>("skip_locked_chapters", true),
+};
+
+export class KaynscanSettingsForm extends SourceSettingsForm {
+  constructor(options: Omit<SourceSettingsOptions, "preferences">) {
+    super({ ...options, preferences });
+  }
+
+  protected override getSourceSections(
+    this: KaynscanSettingsForm,
+  ): Application.FormSectionElement[] {
+    return [
+      Section("chapters", [
+        ToggleRow("skip_locked_chapters", {
+          title: "Hide Locked Chapters",
+          value: preferences.skipLockedChapters.get(),
+          onValueChange: Application.Selector(this, "handleSkipLockedChange"),
+        }),
+      ]),
+    ];
+  }
+
+  async handleSkipLockedChange(value: boolean): Promise<void> {
+    preferences.skipLockedChapters.set(value);
+  }
+}
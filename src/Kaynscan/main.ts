@@ -1,18 +1,16 @@
 import {
-  BasicRateLimiter,
   Chapter,
   ChapterDetails,
   ChapterProviding,
   CloudflareBypassRequestProviding,
-  CloudflareError,
   ContentRating,
   Cookie,
-  CookieStorageInterceptor,
   DiscoverSection,
   DiscoverSectionItem,
   DiscoverSectionProviding,
   DiscoverSectionType,
   Extension,
+  Form,
   MangaProviding,
   PagedResults,
   Request,
@@ -20,16 +18,77 @@ import {
   SearchQuery,
   SearchResultItem,
   SearchResultsProviding,
+  SettingsFormProviding,
   SourceManga,
   TagSection,
 } from "@paperback/types";
 import * as cheerio from "cheerio";
 import { CheerioAPI } from "cheerio";
 import * as htmlparser2 from "htmlparser2";
+import { AccountSession } from "../utils/account-session";
+import {
+  ChapterLabel,
+  numberChapters,
+  parseChapterLabel,
+  shortChapterTitle,
+} from "../utils/chapter-parser";
+import { checkForChallenge } from "../utils/cloudflare";
+import { ContentRatingClassifier } from "../utils/content-rating";
+import { CookieJar } from "../utils/cookie-jar";
+import { CookieJarForm } from "../utils/cookie-jar-form";
+import { Clock, parseDate, systemClock } from "../utils/date-parser";
+import { GenreBlocklist } from "../utils/genre-blocklist";
+import {
+  HostRule,
+  HostRulesInterceptor,
+  imageAccept,
+} from "../utils/host-rules";
+import { urlParts } from "../utils/http";
+import {
+  formatCount,
+  parseCount,
+  publicationType,
+  releaseYear,
+  splitNames,
+  splitTitles,
+  tagSection,
+} from "../utils/metadata";
+import { MirrorForm } from "../utils/mirror-form";
+import { MirrorList } from "../utils/mirrors";
+import { AdaptiveRateLimiter } from "../utils/rate-limiter";
+import { ResponseCache } from "../utils/response-cache";
+import { SearchFilterMapping } from "../utils/search-filters";
+import { URLBuilder } from "../utils/url-builder/base";
 import { KaynscanMetadata } from "./Kaynscan";
-import { KaynscanInterceptor } from "./KaynscanInterceptor";
-
-const baseUrl = "https://kaynscan.com";
+import { ChapterLockedError } from "./KaynscanErrors";
+import { KaynscanSettingsForm, preferences } from "./KaynscanSettings";
+
+// Domains the site is known to answer on, the first being the default
+const knownMirrors = ["https://kaynscan.com"];
+
+function siteHostRules(mirrors: MirrorList): HostRule[] {
+  const baseUrl = mirrors.active;
+  return [
+    {
+      hosts: mirrors.hosts.map((x) => `*.${x}`),
+      headers: { referer: `${baseUrl}/` },
+      upgradeHttps: true,
+      allowedRedirects: [],
+    },
+    {
+      hosts: ["cdn.meowing.org"],
+      headers: { referer: `${baseUrl}/`, origin: baseUrl, accept: imageAccept },
+      upgradeHttps: true,
+    },
+    // Image proxy some covers are served through
+    {
+      hosts: ["wsrv.nl"],
+      headers: { referer: `${baseUrl}/`, accept: imageAccept },
+      upgradeHttps: true,
+    },
+    { hosts: ["*"], headers: { referer: `${baseUrl}/` }, upgradeHttps: true },
+  ];
+}
 
 // Helper function to ensure URLs use HTTPS
 function ensureHttps(url: string): string {
@@ -39,86 +98,541 @@ function ensureHttps(url: string): string {
   return url;
 }
 
+type CheerioSelection = ReturnType<CheerioAPI>;
+
+// Text of the span following a label span, e.g. "Manhwa" for "Type"
+function infoValue($: CheerioAPI, labels: string[]): string {
+  const wanted = labels.map((x) => x.toLowerCase());
+  const label = $("span")
+    .filter((_, el) => wanted.includes($(el).text().trim().toLowerCase()))
+    .first();
+  return label.next("span").text().trim();
+}
+
+// Locked chapters have a lock overlay
+// (<div class="...absolute..."><img src="...lock.svg"></div>) and a coin
+// cost: c="75" or higher, while free chapters have c="1"
+function isLockedChapterLink(link: CheerioSelection): boolean {
+  const hasLockOverlay =
+    link.find("div.absolute").find("img[src*='lock']").length > 0;
+  const coinCost = link.attr("c") || "1";
+  return hasLockOverlay || parseInt(coinCost) > 1;
+}
+
+interface ChapterLock {
+  coins?: number;
+  freeDate?: Date;
+}
+
+// Locked chapters may say when they turn free, e.g. "Free in 7 days" or
+// "Free on Oct 26, 2025". Only elements without children are read, so the
+// text of wrappers, like "Free on Oct 26, 2025 Unlock", is never parsed.
+function freeReleaseDate(
+  $: CheerioAPI,
+  container: CheerioSelection,
+  now: Date,
+): Date | undefined {
+  for (const element of container.find("*").toArray()) {
+    if ($(element).children().length > 0) continue;
+
+    const text = $(element).text().trim().replace(/\s+/g, " ");
+    const match = text.match(/^free\s+(?:on\s+)?(.+)$/i);
+    const date = match ? parseDate(match[1], now) : undefined;
+    if (date) return date;
+  }
+  return undefined;
+}
+
+// Lock details of a chapter link; the coin cost is its c attribute
+function chapterLinkLock(
+  $: CheerioAPI,
+  link: CheerioSelection,
+  now: Date,
+): ChapterLock {
+  const coins = parseInt(link.attr("c") || "");
+  return {
+    coins: coins > 1 ? coins : undefined,
+    freeDate: freeReleaseDate($, link, now),
+  };
+}
+
+// Chapter pages of locked chapters show an unlock prompt instead of images:
+// "This chapter is locked", "Unlock this chapter for 75 coins"
+function chapterPageLock($: CheerioAPI, now: Date): ChapterLock | undefined {
+  const text = $("body").text().replace(/\s+/g, " ");
+  if (!/chapter is locked/i.test(text) && $("img[src*='lock']").length == 0) {
+    return undefined;
+  }
+
+  const coins = text.match(/(\d[\d,]*)\s*coins?\b/i)?.[1];
+  return {
+    coins: coins ? parseInt(coins.replace(/,/g, "")) : undefined,
+    freeDate: freeReleaseDate($, $("body"), now),
+  };
+}
+
+// e.g. "🔒 Chapter 146 (75 coins, free 2025-10-26)"
+function lockedChapterTitle(title: string, lock: ChapterLock): string {
+  const details = [
+    lock.coins !== undefined ? `${lock.coins} coins` : undefined,
+    lock.freeDate
+      ? `free ${lock.freeDate.toISOString().slice(0, 10)}`
+      : undefined,
+  ].filter((x) => x);
+  return details.length > 0
+    ? `🔒 ${title} (${details.join(", ")})`
+    : `🔒 ${title}`;
+}
+
+// Chapter URLs look like /chapter/640d715df1f-640d77c18dc/
+function chapterIdFromUrl(url: string): string | undefined {
+  return url.match(/\/chapter\/([^/?#]+)/)?.[1];
+}
+
+// e.g. "Ch. 145 • 9 hours ago"
+function chapterSubtitle(link: CheerioSelection): string | undefined {
+  const titleText = link.attr("title") || link.find(".text-sm").text().trim();
+  if (!titleText) return undefined;
+
+  const time = link.find(".text-xs.text-white\\/50").first().text().trim();
+  return [shortChapterTitle(parseChapterLabel(titleText)), time]
+    .filter((x) => x)
+    .join(" • ");
+}
+
+// Covers are CSS backgrounds: style="background-image: url('/uploads/...')"
+function cardImage(link: CheerioSelection, baseUrl: string): string {
+  const style =
+    link.find("div[style*='background-image']").first().attr("style") || "";
+  const image = (style.match(/url\(([^)]+)\)/)?.[1] ?? "").replace(/['"]/g, "");
+  return ensureHttps(image.startsWith("http") ? image : `${baseUrl}${image}`);
+}
+
+// Homepage blocks are sections headed by their name, e.g. <h2>Trending</h2>
+function homeBlock($: CheerioAPI, heading: string): CheerioSelection {
+  return $("section")
+    .filter(
+      (_, el) =>
+        $(el).find("h2, h3").first().text().trim().toLowerCase() ==
+        heading.toLowerCase(),
+    )
+    .first();
+}
+
+// Homepage section id -> heading of the block it is parsed from
+const homeBlockHeadings: Record<string, string> = {
+  trending: "Trending",
+  weekly: "Weekly",
+  new_series: "New Series",
+};
+
 type KaynscanImplementation = Extension &
   SearchResultsProviding &
   MangaProviding &
   ChapterProviding &
   DiscoverSectionProviding &
-  CloudflareBypassRequestProviding;
+  CloudflareBypassRequestProviding &
+  SettingsFormProviding;
 
 export class KaynscanExtension implements KaynscanImplementation {
-  requestManager = new KaynscanInterceptor("main");
-  globalRateLimiter = new BasicRateLimiter("rateLimiter", {
+  mirrors = new MirrorList({
+    known: knownMirrors,
+    onChange: () => {
+      this.requestManager.rules = siteHostRules(this.mirrors);
+    },
+  });
+  requestManager = new HostRulesInterceptor(
+    "main",
+    siteHostRules(this.mirrors),
+    {
+      onDomainMove: (move) => {
+        if (!this.mirrors.isMirrorUrl(move.from)) return;
+        preferences.siteMovedTo.set(move.to);
+      },
+    },
+  );
+  globalRateLimiter = new AdaptiveRateLimiter("rateLimiter", {
     numberOfRequests: 5,
+    numberOfImageRequests: 20,
     bufferInterval: 1,
-    ignoreImages: true,
   });
-  cookieStorageInterceptor = new CookieStorageInterceptor({
-    storage: "stateManager",
+  cookieJar = new CookieJar();
+  // Routes match any host, so they hold on whichever mirror is in use
+  responseCache = new ResponseCache([
+    { pattern: /^https:\/\/[^/]+\/$/, ttl: 600 },
+    // The series index only supplies the genre list
+    { pattern: /^https:\/\/[^/]+\/series$/, ttl: 3600, persist: true },
+    { pattern: /^https:\/\/[^/]+\/series\/[^/]+\/$/, ttl: 300 },
+  ]);
+  session = new AccountSession(
+    {
+      siteName: "Kaynscan",
+      loginUrl: () => `${this.baseUrl}/login`,
+      logoutUrl: () => `${this.baseUrl}/logout`,
+      sessionCookieName: "kaynscan_session",
+      credentialsKey: "kaynscan_credentials",
+      onChange: () => this.responseCache.clear(),
+    },
+    this.cookieJar,
+  );
+  clock: Clock = systemClock;
+  // Kaynscan has no separate adult genre, its Mature tag covers explicit series
+  contentRatings = new ContentRatingClassifier({
+    mature: ContentRating.ADULT,
   });
+  blockedGenres = new GenreBlocklist();
+  searchFilters = new SearchFilterMapping([
+    {
+      type: "multiselect",
+      id: "genres",
+      title: "Genres",
+      options: async () => {
+        const hiddenGenres = preferences.hiddenGenres.get();
+        return (await this.getGenresList()).filter(
+          (x) => !hiddenGenres.includes(x.id),
+        );
+      },
+      includeParam: "genre",
+      allowExclusion: false,
+    },
+    {
+      type: "dropdown",
+      id: "status",
+      title: "Status",
+      options: [
+        { id: "all", value: "All" },
+        { id: "ongoing", value: "Ongoing" },
+        { id: "completed", value: "Completed" },
+        { id: "hiatus", value: "Hiatus" },
+        { id: "dropped", value: "Dropped" },
+      ],
+      default: "all",
+      param: "status",
+      omit: ["all"],
+    },
+    {
+      type: "dropdown",
+      id: "type",
+      title: "Type",
+      options: [
+        { id: "all", value: "All" },
+        { id: "manga", value: "Manga" },
+        { id: "manhwa", value: "Manhwa" },
+        { id: "manhua", value: "Manhua" },
+      ],
+      default: "all",
+      param: "type",
+      omit: ["all"],
+    },
+    {
+      type: "dropdown",
+      id: "order",
+      title: "Sort By",
+      options: [
+        { id: "update", value: "Latest Update" },
+        { id: "popular", value: "Popular" },
+        { id: "latest", value: "Newly Added" },
+        { id: "title", value: "Title A-Z" },
+      ],
+      default: () => preferences.defaultSort.get(),
+      param: "order",
+    },
+  ]);
+
+  /** Origin of the mirror in use, e.g. "https://kaynscan.com" */
+  private get baseUrl(): string {
+    return this.mirrors.active;
+  }
 
   async initialise(): Promise<void> {
+    this.globalRateLimiter.options.numberOfRequests =
+      preferences.requestsPerSecond.get();
+
     this.requestManager.registerInterceptor();
     this.globalRateLimiter.registerInterceptor();
-    this.cookieStorageInterceptor.registerInterceptor();
+    this.cookieJar.registerInterceptor();
   }
 
   async saveCloudflareBypassCookies(cookies: Cookie[]): Promise<void> {
-    for (const cookie of this.cookieStorageInterceptor.cookies) {
-      this.cookieStorageInterceptor.deleteCookie(cookie);
-    }
     for (const cookie of cookies) {
-      if (cookie.expires && cookie.expires.getTime() <= Date.now()) {
-        continue;
-      }
-      this.cookieStorageInterceptor.setCookie(cookie);
+      this.cookieJar.setCookie(cookie);
     }
   }
 
-  checkCloudflareStatus(status: number): void {
-    if (status == 503 || status == 403) {
-      // Explicitly use https:// URL for CloudflareError
-      throw new CloudflareError({ url: "https://kaynscan.com", method: "GET" });
-    }
+  async getSettingsForm(): Promise<Form> {
+    const sortFilter = (await this.searchFilters.getSearchFilters()).find(
+      (x) => x.id == "order",
+    );
+
+    return new KaynscanSettingsForm({
+      sections: this.getAllDiscoverSections(),
+      sortOptions: sortFilter?.type == "dropdown" ? sortFilter.options : [],
+      genres: await this.getGenresList(),
+      blockedGenres: this.blockedGenres,
+      session: this.session,
+      cookies: new CookieJarForm({
+        jar: this.cookieJar,
+        siteUrl: this.baseUrl,
+        keep: (cookie) => this.session.ownsCookie(cookie),
+      }),
+      mirrors: new MirrorForm(this.mirrors),
+      onRequestRateChange: (requestsPerSecond) => {
+        this.globalRateLimiter.options.numberOfRequests = requestsPerSecond;
+      },
+    });
   }
 
   async getDiscoverSections(): Promise<DiscoverSection[]> {
+    const hiddenSections = preferences.hiddenSections.get();
+    return this.getAllDiscoverSections().filter(
+      (x) => !hiddenSections.includes(x.id),
+    );
+  }
+
+  private getAllDiscoverSections(): DiscoverSection[] {
     return [
       {
-        id: "popular",
-        title: "Popular",
+        id: "featured",
+        title: "Featured",
         type: DiscoverSectionType.featured,
       },
+      {
+        id: "trending",
+        title: "Trending",
+        type: DiscoverSectionType.prominentCarousel,
+      },
       {
         id: "latest",
         title: "Latest Updates",
         type: DiscoverSectionType.chapterUpdates,
       },
+      {
+        id: "weekly",
+        title: "Weekly",
+        type: DiscoverSectionType.simpleCarousel,
+      },
+      {
+        id: "new_series",
+        title: "New Series",
+        type: DiscoverSectionType.simpleCarousel,
+      },
+      {
+        id: "popular",
+        title: "Popular",
+        type: DiscoverSectionType.featured,
+      },
+      {
+        id: "genres",
+        title: "Genres",
+        type: DiscoverSectionType.genres,
+      },
     ];
   }
 
+  private async getGenresList(): Promise<{ id: string; value: string }[]> {
+    const genres: { id: string; value: string }[] = [];
+
+    try {
+      const request = {
+        url: `${this.baseUrl}/series`,
+        method: "GET",
+      };
+
+      const $ = await this.fetchCheerio(request);
+
+      // Genre links look like the ones on series pages: /series/?genre=Action
+      $("a[href*='?genre=']").each((_, element) => {
+        const href = $(element).attr("href") || "";
+        const genreMatch = href.match(/[?&]genre=([^&#]+)/);
+        const id = genreMatch ? decodeURIComponent(genreMatch[1]) : "";
+        const genre =
+          $(element).find("span").first().text().trim() ||
+          $(element).text().trim();
+
+        if (id && genre && !genres.some((x) => x.id == id)) {
+          genres.push({ id: id, value: genre });
+        }
+      });
+    } catch (error) {
+      console.error("Failed to get genre list:", error);
+    }
+
+    if (genres.length === 0) {
+      const staticGenres = [
+        "Action",
+        "Adventure",
+        "Comedy",
+        "Drama",
+        "Fantasy",
+        "Harem",
+        "Historical",
+        "Horror",
+        "Isekai",
+        "Martial Arts",
+        "Mature",
+        "Murim",
+        "Mystery",
+        "Psychological",
+        "Reincarnation",
+        "Revenge",
+        "Romance",
+        "School Life",
+        "Sci-Fi",
+        "Seinen",
+        "Shoujo",
+        "Shounen",
+        "Slice of Life",
+        "Sports",
+        "Supernatural",
+        "System",
+        "Thriller",
+        "Tragedy",
+      ];
+
+      staticGenres.forEach((genre) => {
+        genres.push({ id: genre, value: genre });
+      });
+    }
+
+    return genres.sort((a, b) => a.value.localeCompare(b.value));
+  }
+
   async getSearchFilters(): Promise<SearchFilter[]> {
-    return [];
+    return this.searchFilters.getSearchFilters();
   }
 
   async getDiscoverSectionItems(
     section: DiscoverSection,
     metadata: KaynscanMetadata | undefined,
+  ): Promise<PagedResults<DiscoverSectionItem>> {
+    switch (section.id) {
+      case "popular":
+      case "latest":
+        return this.getSeriesListingItems(section, metadata);
+      case "genres":
+        return this.getGenreSectionItems();
+      default:
+        return this.getHomeSectionItems(section);
+    }
+  }
+
+  /**
+   * Parses the hero slider and the headed blocks of the homepage. Cards show
+   * their newest free chapter, or their genres when they list no chapter.
+   */
+  async getHomeSectionItems(
+    section: DiscoverSection,
+  ): Promise<PagedResults<DiscoverSectionItem>> {
+    const $ = await this.fetchCheerio({
+      url: `${this.baseUrl}/`,
+      method: "GET",
+    });
+    const heading = homeBlockHeadings[section.id];
+    const container =
+      section.id == "featured"
+        ? $(".swiper-slide")
+        : heading
+          ? homeBlock($, heading)
+          : undefined;
+    if (!container) return { items: [] };
+
+    const items: DiscoverSectionItem[] = [];
+    const collectedIds: string[] = [];
+    const isBlocked = this.blockedGenres.forListing();
+
+    container.find("a[href*='/series/']").each((_, element) => {
+      const link = $(element);
+      const mangaId = link.attr("href")?.match(/\/series\/([^/?#]+)/)?.[1];
+      const title = link.attr("title") || "";
+      if (!mangaId || !title || collectedIds.includes(mangaId)) return;
+
+      const card = link.parent();
+      const genres = card
+        .find("a[href*='?genre=']")
+        .map((_, x) => $(x).text().trim())
+        .get()
+        .filter((x) => x);
+      if (isBlocked(mangaId, genres)) return;
+
+      const chapterLink = card
+        .find("a[href*='/chapter/']")
+        .filter((_, x) => !isLockedChapterLink($(x)))
+        .first();
+      const subtitle =
+        (chapterLink.length > 0 ? chapterSubtitle(chapterLink) : undefined) ||
+        genres.join(", ") ||
+        undefined;
+
+      collectedIds.push(mangaId);
+      if (section.type == DiscoverSectionType.featured) {
+        // Featured items have no synopsis field, so slides show only the
+        // chapter or genres above the title
+        items.push({
+          type: "featuredCarouselItem",
+          mangaId: mangaId,
+          imageUrl: cardImage(link, this.baseUrl),
+          title: title,
+          supertitle: subtitle,
+          metadata: undefined,
+        });
+      } else {
+        items.push({
+          type:
+            section.type == DiscoverSectionType.prominentCarousel
+              ? "prominentCarouselItem"
+              : "simpleCarouselItem",
+          mangaId: mangaId,
+          imageUrl: cardImage(link, this.baseUrl),
+          title: title,
+          subtitle: subtitle,
+          metadata: undefined,
+        });
+      }
+    });
+
+    return { items: items, metadata: undefined };
+  }
+
+  // One item per genre, each opening a search filtered by it
+  async getGenreSectionItems(): Promise<PagedResults<DiscoverSectionItem>> {
+    const hiddenGenres = preferences.hiddenGenres.get();
+    const genres = (await this.getGenresList()).filter(
+      (x) => !hiddenGenres.includes(x.id),
+    );
+
+    return {
+      items: genres.map((genre) => ({
+        type: "genresCarouselItem",
+        searchQuery: {
+          title: "",
+          filters: [{ id: "genres", value: { [genre.id]: "included" } }],
+        },
+        name: genre.value,
+        metadata: undefined,
+      })),
+      metadata: undefined,
+    };
+  }
+
+  async getSeriesListingItems(
+    section: DiscoverSection,
+    metadata: KaynscanMetadata | undefined,
   ): Promise<PagedResults<DiscoverSectionItem>> {
     const page = metadata?.page ?? 1;
     const collectedIds = metadata?.collectedIds ?? [];
 
-    let url = `${baseUrl}`;
+    let url = `${this.baseUrl}`;
 
     if (section.id === "popular") {
-      url = `${baseUrl}/series?page=${page}&order=popular`;
+      url = `${this.baseUrl}/series?page=${page}&order=popular`;
     } else if (section.id === "latest") {
-      url = `${baseUrl}/series?page=${page}&order=update`;
+      url = `${this.baseUrl}/series?page=${page}&order=update`;
     }
 
     const request = { url, method: "GET" };
     const $ = await this.fetchCheerio(request);
     const items: DiscoverSectionItem[] = [];
+    const isBlocked = this.blockedGenres.forListing();
 
     // Kaynscan manga cards: <a href="/series/{id}/" class="grid border aspect-[0.75/1]...">
     $("a[href*='/series/']").each((_, element) => {
@@ -135,15 +649,17 @@ export class KaynscanExtension implements KaynscanImplementation {
       if (mangaId.includes("?") || mangaId.includes(" ") || mangaId.length < 3)
         return;
       if (collectedIds.includes(mangaId)) return;
-
-      // Get image from background-image style
-      const imageDiv = link.find("div[style*='background-image']").first();
-      const styleAttr = imageDiv.attr("style") || "";
-      const imageMatch = styleAttr.match(/url\(([^)]+)\)/);
-      let image = imageMatch ? imageMatch[1] : "";
-
-      // Clean up the image URL (remove quotes if present)
-      image = image.replace(/['"]/g, "");
+      // Cards list no genres, so only titles seen before are checked
+      if (isBlocked(mangaId)) return;
+
+      // Update cards list their latest chapters next to the series link
+      const chapterLink = link
+        .parent()
+        .find("a[href*='/chapter/']")
+        .filter((_, x) => !isLockedChapterLink($(x)))
+        .first();
+      const chapterId = chapterIdFromUrl(chapterLink.attr("href") || "");
+      if (section.id === "latest" && !chapterId) return;
 
       if (mangaId && title) {
         collectedIds.push(mangaId);
@@ -151,9 +667,7 @@ export class KaynscanExtension implements KaynscanImplementation {
           items.push({
             type: "featuredCarouselItem",
             mangaId: mangaId,
-            imageUrl: ensureHttps(
-              image.startsWith("http") ? image : `${baseUrl}${image}`,
-            ),
+            imageUrl: cardImage(link, this.baseUrl),
             title: title,
             metadata: undefined,
           });
@@ -161,11 +675,10 @@ export class KaynscanExtension implements KaynscanImplementation {
           items.push({
             type: "chapterUpdatesCarouselItem",
             mangaId: mangaId,
-            imageUrl: ensureHttps(
-              image.startsWith("http") ? image : `${baseUrl}${image}`,
-            ),
+            imageUrl: cardImage(link, this.baseUrl),
             title: title,
-            chapterId: "1",
+            subtitle: chapterSubtitle(chapterLink),
+            chapterId: chapterId ?? "",
             metadata: undefined,
           });
         }
@@ -186,11 +699,21 @@ export class KaynscanExtension implements KaynscanImplementation {
     metadata: { page?: number } | undefined,
   ): Promise<PagedResults<SearchResultItem>> {
     const page = metadata?.page ?? 1;
-    const searchUrl = `${baseUrl}/search?q=${encodeURIComponent(query.title || "")}&page=${page}`;
-
-    const request = { url: searchUrl, method: "GET" };
+    // Search = https://kaynscan.com/search?q=solo
+    // Browse = https://kaynscan.com/series?genre=Action&status=ongoing&type=manhwa&order=popular
+    const searchUrl = query.title
+      ? new URLBuilder(this.baseUrl)
+          .addPath("search")
+          .addQuery("q", query.title)
+      : new URLBuilder(this.baseUrl).addPath("series");
+    searchUrl.addQuery("page", page.toString());
+
+    this.searchFilters.apply(query, searchUrl);
+
+    const request = { url: searchUrl.build(), method: "GET" };
     const $ = await this.fetchCheerio(request);
     const searchResults: SearchResultItem[] = [];
+    const isBlocked = this.blockedGenres.forListing();
 
     // Same structure as homepage manga cards
     $("a[href*='/series/']").each((_, element) => {
@@ -205,21 +728,12 @@ export class KaynscanExtension implements KaynscanImplementation {
       if (!mangaId || mangaId === "" || !title) return;
       if (mangaId.includes("?") || mangaId.includes(" ") || mangaId.length < 3)
         return;
-
-      const imageDiv = link.find("div[style*='background-image']").first();
-      const styleAttr = imageDiv.attr("style") || "";
-      const imageMatch = styleAttr.match(/url\(([^)]+)\)/);
-      let image = imageMatch ? imageMatch[1] : "";
-
-      // Clean up the image URL (remove quotes if present)
-      image = image.replace(/['"]/g, "");
+      if (isBlocked(mangaId)) return;
 
       if (title && mangaId) {
         searchResults.push({
           mangaId: mangaId,
-          imageUrl: ensureHttps(
-            image.startsWith("http") ? image : `${baseUrl}${image}`,
-          ),
+          imageUrl: cardImage(link, this.baseUrl),
           title: title,
         });
       }
@@ -236,7 +750,7 @@ export class KaynscanExtension implements KaynscanImplementation {
 
   async getMangaDetails(mangaId: string): Promise<SourceManga> {
     const request = {
-      url: `${baseUrl}/series/${mangaId}/`,
+      url: `${this.baseUrl}/series/${mangaId}/`,
       method: "GET",
     };
 
@@ -314,34 +828,66 @@ export class KaynscanExtension implements KaynscanImplementation {
 
     const tags: TagSection[] = [];
     const genres: string[] = [];
+    const hiddenGenres = preferences.hiddenGenres.get();
 
     // Genres are in <a href="/series/?genre=X"> tags with <span> inside
     $("a[href*='?genre=']").each((_, element) => {
       const genre = $(element).find("span").first().text().trim();
       if (genre) genres.push(genre);
     });
+    this.blockedGenres.checkDetails(mangaId, genres);
 
-    if (genres.length > 0) {
+    const shownGenres = genres.filter((x) => !hiddenGenres.includes(x));
+    if (shownGenres.length > 0) {
       tags.push({
         id: "genres",
         title: "Genres",
-        tags: genres.map((genre) => ({
+        tags: shownGenres.map((genre) => ({
           id: genre.toLowerCase().replace(/\s+/g, "-"),
           title: genre,
         })),
       });
     }
 
+    // Other details are label/value pairs: <div><span>Type</span><span>Manhwa</span></div>
+    const altTitles = splitTitles(
+      infoValue($, ["Alternative Titles", "Alternative", "Alt Titles"]),
+      title,
+    );
+    const authors = splitNames(infoValue($, ["Author", "Authors"]));
+    const artists = splitNames(infoValue($, ["Artist", "Artists"]));
+    const type = publicationType([infoValue($, ["Type"]), ...genres]);
+    const year = releaseYear(infoValue($, ["Released", "Release Year"]));
+    const views = parseCount(infoValue($, ["Views"]));
+    const bookmarks = parseCount(infoValue($, ["Bookmarks", "Followers"]));
+
+    tags.push(
+      ...[
+        tagSection("type", "Type", type ? [type] : []),
+        tagSection("authors", "Authors", authors),
+        tagSection("artists", "Artists", artists),
+        tagSection("release", "Released", year ? [year.toString()] : []),
+        tagSection("stats", "Stats", [
+          ...(views !== undefined ? [`${formatCount(views)} views`] : []),
+          ...(bookmarks !== undefined
+            ? [`${formatCount(bookmarks)} bookmarks`]
+            : []),
+        ]),
+      ].filter((x) => x !== undefined),
+    );
+
     return {
       mangaId: mangaId,
       mangaInfo: {
         primaryTitle: title,
-        secondaryTitles: [],
+        secondaryTitles: altTitles,
+        author: authors.join(", ") || undefined,
+        artist: artists.join(", ") || undefined,
         thumbnailUrl: ensureHttps(
-          image.startsWith("http") ? image : `${baseUrl}${image}`,
+          image.startsWith("http") ? image : `${this.baseUrl}${image}`,
         ),
         synopsis: description,
-        contentRating: ContentRating.EVERYONE,
+        contentRating: this.contentRatings.classify(genres),
         status: status as "ONGOING" | "COMPLETED" | "UNKNOWN",
         tagGroups: tags,
       },
@@ -350,12 +896,18 @@ export class KaynscanExtension implements KaynscanImplementation {
 
   async getChapters(sourceManga: SourceManga): Promise<Chapter[]> {
     const request = {
-      url: `${baseUrl}/series/${sourceManga.mangaId}/`,
+      url: `${this.baseUrl}/series/${sourceManga.mangaId}/`,
       method: "GET",
     };
 
     const $ = await this.fetchCheerio(request);
-    const chapters: Chapter[] = [];
+    const entries: {
+      chapterId: string;
+      label: ChapterLabel;
+      date: string;
+      lock?: ChapterLock;
+    }[] = [];
+    const skipLocked = preferences.skipLockedChapters.get();
 
     // Kaynscan chapter links: <a href="/chapter/640d715df1f-640d77c18dc/" c="1">
     $("a[href*='/chapter/']").each((_, element) => {
@@ -364,38 +916,18 @@ export class KaynscanExtension implements KaynscanImplementation {
 
       if (!chapterUrl) return;
 
-      // Skip locked/paywalled chapters - check for lock overlay div and coin cost
-      // Locked chapters have: <div class="...absolute..."><img src="...lock.svg"></div>
-      const hasLockOverlay =
-        link.find("div.absolute").find("img[src*='lock']").length > 0;
-
-      // Also check coin cost - locked chapters have c="75" or higher, free chapters have c="1"
-      const coinCost = link.attr("c") || "1";
-      const isLocked = hasLockOverlay || parseInt(coinCost) > 1;
-
-      if (isLocked) return;
+      // Skip locked/paywalled chapters unless the user wants to see them
+      const locked = isLockedChapterLink(link);
+      if (skipLocked && locked) return;
 
-      // Extract full chapter ID from URL like /chapter/640d715df1f-640d77c18dc/
-      const chapterIdMatch = chapterUrl.match(/\/chapter\/([^/]+)/);
-      if (!chapterIdMatch) return;
+      const chapterId = chapterIdFromUrl(chapterUrl);
+      if (!chapterId) return;
 
-      const chapterId = chapterIdMatch[1];
-
-      // Get chapter number from 'c' attribute or title - note: 'c' is actually the order, not chapter number
+      // Titles look like "Chapter 145" or "Chapter 0 - Prologue"; 'c' is the
+      // coin cost, not the chapter number
       const titleText =
         link.attr("title") || link.find(".text-sm").text().trim();
-
-      let chapterNumber = 0;
-      // Extract chapter number from title like "Chapter 145"
-      const numMatch = titleText.match(/Chapter\s+(\d+(?:\.\d+)?)/i);
-      if (numMatch) {
-        chapterNumber = Number(numMatch[1]);
-      }
-
-      if (isNaN(chapterNumber) || chapterNumber === 0) return;
-
-      // Clean chapter title - just use "Chapter X" format
-      const chapterTitle = `Chapter ${chapterNumber}`;
+      if (!titleText) return;
 
       // Date is in a div with class "text-xs text-white/50" inside the chapter link
       const dateText = link
@@ -404,71 +936,43 @@ export class KaynscanExtension implements KaynscanImplementation {
         .text()
         .trim();
 
-      // Parse relative time like "9 hours ago", "1 day ago", etc.
-      let publishDate: Date | undefined = undefined;
-      if (dateText) {
-        const now = new Date();
-        const timeMatch = dateText.match(
-          /(\d+)\s+(second|minute|hour|day|week|month|year)s?\s+ago/i,
-        );
-        if (timeMatch) {
-          const value = parseInt(timeMatch[1]);
-          const unit = timeMatch[2].toLowerCase();
-
-          switch (unit) {
-            case "second":
-              publishDate = new Date(now.getTime() - value * 1000);
-              break;
-            case "minute":
-              publishDate = new Date(now.getTime() - value * 60 * 1000);
-              break;
-            case "hour":
-              publishDate = new Date(now.getTime() - value * 60 * 60 * 1000);
-              break;
-            case "day":
-              publishDate = new Date(
-                now.getTime() - value * 24 * 60 * 60 * 1000,
-              );
-              break;
-            case "week":
-              publishDate = new Date(
-                now.getTime() - value * 7 * 24 * 60 * 60 * 1000,
-              );
-              break;
-            case "month":
-              publishDate = new Date(
-                now.getTime() - value * 30 * 24 * 60 * 60 * 1000,
-              );
-              break;
-            case "year":
-              publishDate = new Date(
-                now.getTime() - value * 365 * 24 * 60 * 60 * 1000,
-              );
-              break;
-          }
-        }
-      }
-
-      chapters.push({
-        chapterId: chapterId,
-        title: chapterTitle,
-        sourceManga,
-        chapNum: chapterNumber,
-        publishDate: publishDate,
-        langCode: "🇬🇧",
+      entries.push({
+        chapterId,
+        label: parseChapterLabel(titleText),
+        date: dateText,
+        lock: locked ? chapterLinkLock($, link, this.clock()) : undefined,
       });
     });
 
+    const numbers = numberChapters(entries.map((x) => x.label));
+    const chapters: Chapter[] = entries.map((entry, i) => ({
+      chapterId: entry.chapterId,
+      title: entry.lock
+        ? lockedChapterTitle(entry.label.title, entry.lock)
+        : entry.label.title,
+      sourceManga,
+      chapNum: numbers[i],
+      publishDate: parseDate(entry.date, this.clock()),
+      volume: entry.label.volume,
+      langCode: "🇬🇧",
+    }));
+
     return chapters.sort((a, b) => b.chapNum - a.chapNum);
   }
 
   async getChapterDetails(chapter: Chapter): Promise<ChapterDetails> {
     // Chapter URL format: /chapter/640d715df1f-640d77c18dc/
-    const chapterUrl = `${baseUrl}/chapter/${chapter.chapterId}/`;
+    const chapterUrl = `${this.baseUrl}/chapter/${chapter.chapterId}/`;
 
     try {
       const request: Request = { url: chapterUrl, method: "GET" };
-      const $ = await this.fetchCheerio(request);
+      let $ = await this.fetchCheerio(request);
+
+      // Purchased chapters only show their pages to the account that owns them
+      if (this.session.isSignedOutPage($)) {
+        await this.session.renew();
+        $ = await this.fetchCheerio(request);
+      }
 
       const pages: string[] = [];
 
@@ -526,7 +1030,7 @@ export class KaynscanExtension implements KaynscanImplementation {
                 ensureHttps(
                   cleanUrl.startsWith("http")
                     ? cleanUrl
-                    : `${baseUrl}${cleanUrl}`,
+                    : `${this.baseUrl}${cleanUrl}`,
                 ),
               );
             });
@@ -534,10 +1038,26 @@ export class KaynscanExtension implements KaynscanImplementation {
         }
       }
 
-      // If no pages found, throw error
       if (pages.length === 0) {
+        const lock = chapterPageLock($, this.clock());
+        if (lock) {
+          throw new ChapterLockedError(
+            chapter.chapterId,
+            urlParts(this.baseUrl)?.host ?? this.baseUrl,
+            lock.coins,
+            lock.freeDate,
+          );
+        }
         throw new Error(
-          "No images found for this chapter. It may be locked or unavailable.",
+          "No images found for this chapter. It may have been removed.",
+        );
+      }
+
+      // Listed as locked but readable, so the account owns it now and the
+      // cached series page still shows the lock
+      if (chapter.title?.startsWith("🔒")) {
+        this.responseCache.invalidate(
+          `${this.baseUrl}/series/${chapter.sourceManga.mangaId}/`,
         );
       }
 
@@ -553,16 +1073,29 @@ export class KaynscanExtension implements KaynscanImplementation {
   }
 
   getMangaShareUrl(mangaId: string): string {
-    return `${baseUrl}/series/${mangaId}/`;
+    return `${this.baseUrl}/series/${mangaId}/`;
   }
 
   async fetchCheerio(request: Request): Promise<CheerioAPI> {
-    const [response, data] = await Application.scheduleRequest(request);
-    this.checkCloudflareStatus(response.status);
-    const htmlStr = Application.arrayBufferToUTF8String(data);
+    const htmlStr = await this.mirrors.withFallback(request, (x) =>
+      this.fetchPage(x),
+    );
     const dom = htmlparser2.parseDocument(htmlStr);
     return cheerio.load(dom);
   }
+
+  private async fetchPage(request: Request): Promise<string> {
+    const cached = this.responseCache.get(request);
+    if (cached !== undefined) return cached;
+
+    const [response, data] = await this.globalRateLimiter.schedule(request);
+    const htmlStr = Application.arrayBufferToUTF8String(data);
+    checkForChallenge(request, response, htmlStr, { blockedStatus: true });
+    // A followed redirect keeps its 3xx status, and its page is not cached
+    // under the URL that redirected
+    if (response.status == 200) this.responseCache.set(request, htmlStr);
+    return htmlStr;
+  }
 }
 
 export const Kaynscan = new KaynscanExtension();
@@ -1,4 +1,13 @@
 export interface BuddyMetadata {
+  /** Next site page to fetch */
+  page?: number;
+  /** Cards listed on the pages fetched so far, for ranks */
   offset?: number;
   collectedIds?: string[];
 }
+
+export interface BuddySearchMetadata {
+  /** Next site page to fetch */
+  page?: number;
+  collectedIds?: string[];
+}
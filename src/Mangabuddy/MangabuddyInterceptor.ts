@@ -1,20 +0,0 @@
-import { PaperbackInterceptor, Request, Response } from "@paperback/types";
-
-export class BuddyInterceptor extends PaperbackInterceptor {
-  override async interceptRequest(request: Request): Promise<Request> {
-    request.headers = {
-      ...request.headers,
-      referer: `https://mangabuddy.com/`,
-      "user-agent": await Application.getDefaultUserAgent(),
-    };
-    return request;
-  }
-
-  override async interceptResponse(
-    request: Request,
-    response: Response,
-    data: ArrayBuffer,
-  ): Promise<ArrayBuffer> {
-    return data;
-  }
-}
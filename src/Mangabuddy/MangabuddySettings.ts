@@ -0,0 +1,44 @@
+import { SelectRow } from "@paperback/types";
+import { Preference } from "../utils/preferences";
+import {
+  sourcePreferences,
+  SourceSettingsForm,
+  SourceSettingsOptions,
+} from "../utils/settings-form";
+
+export const preferences = {
+  ...sourcePreferences("views"),
+  /** Genre ids shown as their own discover carousels */
+  genreCarousels: new Preference<string[]>("genre_carousels", []),
+};
+
+export class MangabuddySettingsForm extends SourceSettingsForm {
+  constructor(options: Omit<SourceSettingsOptions, "preferences">) {
+    super({
+      ...options,
+      preferences,
+      accountSubtitle: "Bookmarks sync with the Mangabuddy library collection",
+    });
+  }
+
+  protected override getDiscoverRows(
+    this: MangabuddySettingsForm,
+  ): Application.FormItemElement<unknown>[] {
+    return [
+      ...super.getDiscoverRows(),
+      SelectRow("genre_carousels", {
+        title: "Genre Carousels",
+        subtitle: "Genres added to the discover page",
+        value: preferences.genreCarousels.get(),
+        minItemCount: 0,
+        maxItemCount: this.options.genres.length,
+        options: this.genreOptions(),
+        onValueChange: Application.Selector(this, "handleGenreCarouselsChange"),
+      }),
+    ];
+  }
+
+  async handleGenreCarouselsChange(value: string[]): Promise<void> {
+    preferences.genreCarousels.set(value);
+  }
+}
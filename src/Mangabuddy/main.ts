@@ -1,61 +1,262 @@
 import {
-  BasicRateLimiter,
   Chapter,
   ChapterDetails,
   ChapterProviding,
   CloudflareBypassRequestProviding,
-  CloudflareError,
   ContentRating,
   Cookie,
-  CookieStorageInterceptor,
   DiscoverSection,
   DiscoverSectionItem,
   DiscoverSectionProviding,
   DiscoverSectionType,
   Extension,
+  Form,
+  LibraryItemSourceLinkProposal,
+  ManagedCollection,
+  ManagedCollectionChangeset,
+  ManagedCollectionProviding,
   MangaProviding,
   PagedResults,
+  PartialLibraryItem,
   Request,
+  Response,
   SearchFilter,
   SearchQuery,
   SearchResultItem,
   SearchResultsProviding,
+  SettingsFormProviding,
   SourceManga,
   TagSection,
 } from "@paperback/types";
 import * as cheerio from "cheerio";
 import { CheerioAPI } from "cheerio";
 import * as htmlparser2 from "htmlparser2";
+import { AccountSession } from "../utils/account-session";
+import {
+  ChapterLabel,
+  numberChapters,
+  parseChapterLabel,
+  shortChapterTitle,
+} from "../utils/chapter-parser";
+import { checkForChallenge } from "../utils/cloudflare";
+import { ContentRatingClassifier } from "../utils/content-rating";
+import { CookieJar } from "../utils/cookie-jar";
+import { CookieJarForm } from "../utils/cookie-jar-form";
+import { Clock, parseDate, systemClock } from "../utils/date-parser";
+import { GenreBlocklist } from "../utils/genre-blocklist";
+import {
+  HostRule,
+  HostRulesInterceptor,
+  imageAccept,
+} from "../utils/host-rules";
+import {
+  formatCount,
+  normaliseRating,
+  parseCount,
+  publicationType,
+  releaseYear,
+  splitNames,
+  splitTitles,
+  tagSection,
+} from "../utils/metadata";
+import { MirrorForm } from "../utils/mirror-form";
+import { MirrorList } from "../utils/mirrors";
+import { AdaptiveRateLimiter } from "../utils/rate-limiter";
+import { ResponseCache } from "../utils/response-cache";
+import { SearchFilterMapping } from "../utils/search-filters";
 import { URLBuilder } from "../utils/url-builder/base";
-import { BuddyMetadata } from "./Mangabuddy";
-import { BuddyInterceptor } from "./MangabuddyInterceptor";
+import { BuddyMetadata, BuddySearchMetadata } from "./Mangabuddy";
+import { MangabuddySettingsForm, preferences } from "./MangabuddySettings";
+
+// Domains the site is known to answer on, the first being the default
+const knownMirrors = ["https://mangabuddy.com"];
+
+// Upper bound on site pages fetched to fill one page of filtered search results
+const maxSearchPagesPerRequest = 5;
+
+// Genre carousels use this prefix and the genre id as their section id
+const genreSectionPrefix = "genre_";
+
+// Upper bound on bookmark pages read in one sync
+const maxBookmarkPages = 50;
+
+// The genre list is kept in state rather than the home page it comes from
+const genreListKey = "genre_list";
+const genreListTtl = 600;
+
+// Chapter images come from CDN hosts the site rotates between, so anything
+// not listed still gets the site as referer
+function siteHostRules(mirrors: MirrorList): HostRule[] {
+  const referer = `${mirrors.active}/`;
+  return [
+    { hosts: mirrors.hosts.map((x) => `*.${x}`), headers: { referer } },
+    {
+      hosts: ["*.mbcdn.xyz", "*.youmadcdn.xyz"],
+      headers: { referer, accept: imageAccept },
+    },
+    { hosts: ["*"], headers: { referer } },
+  ];
+}
 
-const baseUrl = "https://mangabuddy.com";
+const bookmarksCollection: ManagedCollection = {
+  id: "bookmarks",
+  title: "Mangabuddy Bookmarks",
+};
 
 type BuddyImplementation = Extension &
   SearchResultsProviding &
   MangaProviding &
   ChapterProviding &
   CloudflareBypassRequestProviding &
-  DiscoverSectionProviding;
+  DiscoverSectionProviding &
+  SettingsFormProviding &
+  ManagedCollectionProviding;
 
 export class MangabuddyExtension implements BuddyImplementation {
-  requestManager = new BuddyInterceptor("main");
-  globalRateLimiter = new BasicRateLimiter("rateLimiter", {
+  mirrors = new MirrorList({
+    known: knownMirrors,
+    onChange: () => {
+      this.requestManager.rules = siteHostRules(this.mirrors);
+    },
+  });
+  requestManager = new HostRulesInterceptor(
+    "main",
+    siteHostRules(this.mirrors),
+    {
+      // Image hosts move around too; only the site itself counts
+      onDomainMove: (move) => {
+        if (!this.mirrors.isMirrorUrl(move.from)) return;
+        preferences.siteMovedTo.set(move.to);
+      },
+    },
+  );
+  globalRateLimiter = new AdaptiveRateLimiter("rateLimiter", {
     numberOfRequests: 5,
+    numberOfImageRequests: 20,
     bufferInterval: 1,
-    ignoreImages: true,
   });
-  cookieStorageInterceptor = new CookieStorageInterceptor({
-    storage: "stateManager",
+  cookieJar = new CookieJar();
+  // Only site pages go through the cache, so routes match any mirror's host
+  responseCache = new ResponseCache([
+    { pattern: /^https:\/\/[^/]+\/home$/, ttl: 600 },
+    // Title pages sit at the top level next to the site's own pages
+    {
+      pattern:
+        /^https:\/\/[^/]+\/(?!(?:home|latest|search|login|logout|bookmark|top|genres|status)$)[^/?]+$/,
+      ttl: 300,
+    },
+    { pattern: /^https:\/\/[^/]+\/api\/manga\/[^/]+\/chapters\?/, ttl: 300 },
+  ]);
+  session = new AccountSession(
+    {
+      siteName: "Mangabuddy",
+      loginUrl: () => `${this.baseUrl}/login`,
+      logoutUrl: () => `${this.baseUrl}/api/user/logout`,
+      sessionCookieName: "mangabuddy_session",
+      credentialsKey: "mangabuddy_credentials",
+      // Pages can differ between accounts
+      onChange: () => this.responseCache.clear(),
+    },
+    this.cookieJar,
+  );
+  clock: Clock = systemClock;
+  contentRatings = new ContentRatingClassifier({
+    "soft yaoi": ContentRating.MATURE,
+    "shounen ai": ContentRating.EVERYONE,
+    "shoujo ai": ContentRating.EVERYONE,
   });
+  blockedGenres = new GenreBlocklist();
+  searchFilters = new SearchFilterMapping([
+    {
+      type: "multiselect",
+      id: "genres",
+      title: "Genre Filter",
+      options: async () => {
+        const hiddenGenres = preferences.hiddenGenres.get();
+        return (await this.getGenresList()).filter(
+          (x) => !hiddenGenres.includes(x.id),
+        );
+      },
+      includeParam: "genre[]",
+      allowExclusion: true,
+    },
+    {
+      type: "dropdown",
+      id: "status",
+      title: "Status Filter",
+      options: [
+        { id: "all", value: "All" },
+        { id: "ongoing", value: "Ongoing" },
+        { id: "completed", value: "Completed" },
+      ],
+      default: "all",
+      param: "status",
+      omit: ["all"],
+    },
+    {
+      type: "dropdown",
+      id: "orderby",
+      title: "Sort By",
+      options: [
+        { id: "views", value: "Views" },
+        { id: "updated", value: "Updated" },
+        { id: "created", value: "Created" },
+        { id: "name", value: "Name A-Z" },
+        { id: "rating", value: "Rating" },
+      ],
+      default: () => preferences.defaultSort.get(),
+      param: "sort",
+    },
+  ]);
+
+  /** Origin of the mirror in use, e.g. "https://mangabuddy.com" */
+  private get baseUrl(): string {
+    return this.mirrors.active;
+  }
 
   async initialise(): Promise<void> {
+    this.globalRateLimiter.options.numberOfRequests =
+      preferences.requestsPerSecond.get();
+
     this.requestManager.registerInterceptor();
     this.globalRateLimiter.registerInterceptor();
+    this.cookieJar.registerInterceptor();
+  }
+
+  async getSettingsForm(): Promise<Form> {
+    const sortFilter = (await this.searchFilters.getSearchFilters()).find(
+      (x) => x.id == "orderby",
+    );
+
+    return new MangabuddySettingsForm({
+      sections: this.getAllDiscoverSections(),
+      sortOptions: sortFilter?.type == "dropdown" ? sortFilter.options : [],
+      genres: await this.getGenresList(),
+      blockedGenres: this.blockedGenres,
+      session: this.session,
+      cookies: new CookieJarForm({
+        jar: this.cookieJar,
+        siteUrl: this.baseUrl,
+        keep: (cookie) => this.session.ownsCookie(cookie),
+      }),
+      mirrors: new MirrorForm(this.mirrors),
+      onRequestRateChange: (requestsPerSecond) => {
+        this.globalRateLimiter.options.numberOfRequests = requestsPerSecond;
+      },
+    });
   }
 
   async getDiscoverSections(): Promise<DiscoverSection[]> {
+    const hiddenSections = preferences.hiddenSections.get();
+    return [
+      ...this.getAllDiscoverSections().filter(
+        (x) => !hiddenSections.includes(x.id),
+      ),
+      ...(await this.getGenreDiscoverSections()),
+    ];
+  }
+
+  private getAllDiscoverSections(): DiscoverSection[] {
     return [
       {
         id: "popular_section",
@@ -72,13 +273,49 @@ export class MangabuddyExtension implements BuddyImplementation {
         title: "New Manga",
         type: DiscoverSectionType.simpleCarousel,
       },
+      {
+        id: "top_day_section",
+        title: "Top Day",
+        type: DiscoverSectionType.featured,
+      },
+      {
+        id: "top_week_section",
+        title: "Top Week",
+        type: DiscoverSectionType.featured,
+      },
+      {
+        id: "top_month_section",
+        title: "Top Month",
+        type: DiscoverSectionType.featured,
+      },
+      {
+        id: "completed_section",
+        title: "Completed",
+        type: DiscoverSectionType.featured,
+      },
     ];
   }
 
+  // Carousels for the genres picked in settings, after the built-in sections
+  private async getGenreDiscoverSections(): Promise<DiscoverSection[]> {
+    const genreIds = preferences.genreCarousels.get();
+    if (genreIds.length == 0) return [];
+
+    const genres = await this.getGenresList();
+    return genreIds.map((id) => ({
+      id: `${genreSectionPrefix}${id}`,
+      title: genres.find((x) => x.id == id)?.value ?? id,
+      type: DiscoverSectionType.simpleCarousel,
+    }));
+  }
+
   private async getGenresList(): Promise<{ id: string; value: string }[]> {
+    const stored = readGenreList();
+    if (stored) return stored;
+
     try {
       const request = {
-        url: `${baseUrl}/home`,
+        url: `${this.baseUrl}/home`,
         method: "GET",
       };
 
@@ -105,7 +342,8 @@ export class MangabuddyExtension implements BuddyImplementation {
         }
       });
 
-      if (genres.length === 0) {
+      const fromSite = genres.length > 0;
+      if (!fromSite) {
         const staticGenres = [
           "Action",
           "Adaptation",
@@ -193,7 +431,10 @@ export class MangabuddyExtension implements BuddyImplementation {
       }
 
       // Sort genres alphabetically by value (genre name)
-      return genres.sort((a, b) => a.value.localeCompare(b.value));
+      genres.sort((a, b) => a.value.localeCompare(b.value));
+      // The static list is not kept, so the site is asked again next time
+      if (fromSite) saveGenreList(genres);
+      return genres;
     } catch (error) {
       console.error("Failed to get genre list:", error);
       return [];
@@ -211,152 +452,123 @@ export class MangabuddyExtension implements BuddyImplementation {
         return this.getUpdatedSectionItems(section, metadata);
       case "new_manga_section":
         return this.getNewMangaSectionItems(section, metadata);
-      default:
-        return { items: [] };
+      case "top_day_section":
+        return this.getListingSectionItems("top/day", metadata, {
+          ranked: true,
+        });
+      case "top_week_section":
+        return this.getListingSectionItems("top/week", metadata, {
+          ranked: true,
+        });
+      case "top_month_section":
+        return this.getListingSectionItems("top/month", metadata, {
+          ranked: true,
+        });
+      case "completed_section":
+        return this.getListingSectionItems("status/completed", metadata, {
+          ranked: false,
+        });
     }
-  }
-
-  async getSearchFilters(): Promise<SearchFilter[]> {
-    const filters: SearchFilter[] = [];
 
-    const genresList = await this.getGenresList();
-
-    filters.push({
-      id: "genres",
-      type: "multiselect",
-      options: genresList,
-      allowExclusion: true,
-      value: {},
-      title: "Genre Filter",
-      allowEmptySelection: false,
-      maximum: undefined,
-    });
-
-    filters.push({
-      id: "status",
-      type: "dropdown",
-      options: [
-        { id: "all", value: "All" },
-        { id: "ongoing", value: "Ongoing" },
-        { id: "completed", value: "Completed" },
-      ],
-      value: "all",
-      title: "Status Filter",
-    });
+    if (section.id.startsWith(genreSectionPrefix)) {
+      const genreId = section.id.slice(genreSectionPrefix.length);
+      return this.getListingSectionItems(`genres/${genreId}`, metadata, {
+        ranked: false,
+        carousel: true,
+      });
+    }
 
-    filters.push({
-      id: "orderby",
-      type: "dropdown",
-      options: [
-        { id: "views", value: "Views" },
-        { id: "updated", value: "Updated" },
-        { id: "created", value: "Created" },
-        { id: "name", value: "Name A-Z" },
-        { id: "rating", value: "Rating" },
-      ],
-      value: "views",
-      title: "Sort By",
-    });
+    return { items: [] };
+  }
 
-    return filters;
+  async getSearchFilters(): Promise<SearchFilter[]> {
+    return this.searchFilters.getSearchFilters();
   }
 
   async getSearchResults(
     query: SearchQuery,
-    metadata: { page?: number } | undefined,
+    metadata: BuddySearchMetadata | undefined,
   ): Promise<PagedResults<SearchResultItem>> {
-    const page = metadata?.page ?? 1;
-
-    // Search = https://mangabuddy.com/search?q=amari
-    // Filter = https://mangabuddy.com/search?genre%5B%5D=action&genre%5B%5D=adaptation&status=all&sort=views&q=amari
-    const searchUrl = new URLBuilder(baseUrl)
-      .addPath("search")
-      .addQuery("q", query.title)
-      .addQuery("page", page.toString());
-
-    const getFilterValue = (id: string) =>
-      query.filters.find((filter) => filter.id == id)?.value;
-
-    const genres = getFilterValue("genres") as
-      | Record<string, "included" | "excluded">
-      | undefined;
-    const status = getFilterValue("status");
-    const orderby = (getFilterValue("orderby") as string) || "views";
-
-    if (genres && typeof genres === "object") {
-      Object.keys(genres)
-        .sort()
-        .forEach((id) => {
-          const value = genres[id];
-          if (value === "included") {
-            searchUrl.addQuery("genre[]", id);
-          }
-        });
-    }
-
-    if (status && status != "all") {
-      searchUrl.addQuery("status", status);
-    }
-
-    if (orderby) {
-      searchUrl.addQuery("sort", orderby);
-    }
+    let page = metadata?.page ?? 1;
+    const collectedIds = metadata?.collectedIds ?? [];
 
-    const request = { url: searchUrl.build(), method: "GET" };
+    // The search form only sends included genres, so excluded ones are
+    // dropped from the cards here. To avoid returning short or empty pages,
+    // further site pages are fetched until a full page has been collected.
+    const excludedGenres = this.searchFilters.multiselectValue(
+      query,
+      "genres",
+    ).excluded;
 
-    const $ = await this.fetchCheerio(request);
     const searchResults: SearchResultItem[] = [];
+    let pageSize: number | undefined;
+    let pagesFetched = 0;
+    let hasNextPage: boolean;
+    const isBlocked = this.blockedGenres.forListing();
+
+    do {
+      // Search = https://mangabuddy.com/search?q=amari
+      // Filter = https://mangabuddy.com/search?genre%5B%5D=action&genre%5B%5D=adaptation&status=all&sort=views&q=amari
+      const searchUrl = new URLBuilder(this.baseUrl)
+        .addPath("search")
+        .addQuery("q", query.title)
+        .addQuery("page", page.toString());
 
-    $(".list.manga-list .book-detailed-item").each((_, element) => {
-      const item = $(element);
-      const link = item.find(".meta .title h3 a");
-      const title = link.text().trim();
-      const image =
-        item.find(".thumb img").attr("data-src") ||
-        item.find(".thumb img").attr("src") ||
-        "";
-      const mangaId = link.attr("href")?.substring(1) || "";
-      const latestChapter = item.find(".thumb .latest-chapter").text().trim();
-      const chapterMatch = latestChapter.match(/Chapter (\d+)/i);
-      const subtitle = chapterMatch ? `Ch. ${chapterMatch[1]}` : undefined;
-      const genres: string[] = [];
-      item.find(".meta .genres span").each((_, el) => {
-        const genre = $(el).text().trim();
-        if (genre) genres.push(genre.toLowerCase().replace(/\s+/g, "-"));
-      });
+      this.searchFilters.apply(query, searchUrl);
 
-      // exclude mangas with genre that are excluded
-      if (
-        genres.length > 0 &&
-        typeof query.filters.find((filter) => filter.id == "genres")?.value ===
-          "object"
-      ) {
-        const filterGenres = query.filters.find(
-          (filter) => filter.id == "genres",
-        )?.value as Record<string, "included" | "excluded">;
-        const hasExcluded = genres.some(
-          (genre) => filterGenres[genre] === "excluded",
-        );
-        if (hasExcluded) {
+      const request = { url: searchUrl.build(), method: "GET" };
+
+      const $ = await this.fetchCheerio(request);
+      const cards = $(".list.manga-list .book-detailed-item");
+      pageSize ??= cards.length;
+
+      cards.each((_, element) => {
+        const item = $(element);
+        const link = item.find(".meta .title h3 a");
+        const title = link.text().trim();
+        const image =
+          item.find(".thumb img").attr("data-src") ||
+          item.find(".thumb img").attr("src") ||
+          "";
+        const mangaId = link.attr("href")?.substring(1) || "";
+        const latestChapter = item.find(".thumb .latest-chapter").text().trim();
+        const chapterMatch = latestChapter.match(/Chapter (\d+)/i);
+        const subtitle = chapterMatch ? `Ch. ${chapterMatch[1]}` : undefined;
+        const genres = cardGenres($, item);
+
+        // exclude mangas with genre that are excluded
+        if (
+          genres.some((genre) =>
+            excludedGenres.includes(genre.toLowerCase().replace(/\s+/g, "-")),
+          )
+        ) {
           return;
         }
-      }
+        if (isBlocked(mangaId, genres)) return;
 
-      if (title && mangaId) {
-        searchResults.push({
-          mangaId: mangaId,
-          imageUrl: image,
-          title: title,
-          subtitle: subtitle,
-        });
-      }
-    });
+        if (title && mangaId && !collectedIds.includes(mangaId)) {
+          collectedIds.push(mangaId);
+          searchResults.push({
+            mangaId: mangaId,
+            imageUrl: image,
+            title: title,
+            subtitle: subtitle,
+          });
+        }
+      });
 
-    const hasNextPage = !!$(".paginator .btn.link").not(".active").length;
+      hasNextPage = hasNextPaginatorPage($);
+      page += 1;
+      pagesFetched += 1;
+    } while (
+      hasNextPage &&
+      searchResults.length < pageSize &&
+      pagesFetched < maxSearchPagesPerRequest
+    );
 
     return {
       items: searchResults,
-      metadata: hasNextPage ? { page: page + 1 } : undefined,
+      metadata: hasNextPage ? { page, collectedIds } : undefined,
     };
   }
 
@@ -364,24 +576,21 @@ export class MangabuddyExtension implements BuddyImplementation {
     // Expected mangaId: jun-and-wang-xin
     // URL format: https://mangabuddy.com/jun-and-wang-xin
     const request = {
-      url: `${baseUrl}/${mangaId}`,
+      url: `${this.baseUrl}/${mangaId}`,
       method: "GET",
     };
 
     const $ = await this.fetchCheerio(request);
 
     const title = $("h1").text().trim();
-    const altTitles = $("h2").text().trim().split(" • ");
+    const altTitles = splitTitles($("h2").first().text(), title);
     const image =
       $(".img-cover img").attr("data-src") ||
       $(".img-cover img").attr("src") ||
       "";
     const description = $("p.content").text().trim();
-    let rating = 1;
-    const ratingText = $(".rate-view .rating").text().trim();
-    if (ratingText) {
-      rating = parseFloat(ratingText);
-    }
+    // Ratings are out of 5
+    const rating = normaliseRating($(".rate-view .rating").text().trim(), 5);
 
     let status = "UNKNOWN";
     const statusText = $("p strong:contains('Status')")
@@ -396,6 +605,7 @@ export class MangabuddyExtension implements BuddyImplementation {
 
     const tags: TagSection[] = [];
     const genres: string[] = [];
+    const hiddenGenres = preferences.hiddenGenres.get();
     $("p strong:contains('Genres')")
       .parent()
       .find("a")
@@ -405,21 +615,46 @@ export class MangabuddyExtension implements BuddyImplementation {
           genres.push(genre);
         }
       });
+    this.blockedGenres.checkDetails(mangaId, genres);
 
     if (genres.length > 0) {
       tags.push({
         id: "genres",
         title: "Genres",
-        tags: genres.map((genre) => ({
-          id: genre
-            .toLowerCase()
-            .replace(/\s+/g, "-")
-            .replace(/[^a-z0-9-]/g, ""),
-          title: genre,
-        })),
+        tags: genres
+          .map((genre) => ({
+            id: genre
+              .toLowerCase()
+              .replace(/\s+/g, "-")
+              .replace(/[^a-z0-9-]/g, ""),
+            title: genre,
+          }))
+          .filter((tag) => !hiddenGenres.includes(tag.id)),
       });
     }
 
+    const authors = metaValues($, "Authors").flatMap(splitNames);
+    const artists = metaValues($, "Artists").flatMap(splitNames);
+    const type = publicationType([...metaValues($, "Type"), ...genres]);
+    const year = releaseYear(metaValues($, "Released").join(" "));
+    const views = parseCount(metaValues($, "Views").join(""));
+    const bookmarks = parseCount(metaValues($, "Bookmarks").join(""));
+
+    tags.push(
+      ...[
+        tagSection("type", "Type", type ? [type] : []),
+        tagSection("authors", "Authors", authors),
+        tagSection("artists", "Artists", artists),
+        tagSection("release", "Released", year ? [year.toString()] : []),
+        tagSection("stats", "Stats", [
+          ...(views !== undefined ? [`${formatCount(views)} views`] : []),
+          ...(bookmarks !== undefined
+            ? [`${formatCount(bookmarks)} bookmarks`]
+            : []),
+        ]),
+      ].filter((x) => x !== undefined),
+    );
+
     return {
       mangaId: mangaId,
       mangaInfo: {
@@ -427,8 +662,10 @@ export class MangabuddyExtension implements BuddyImplementation {
         secondaryTitles: altTitles,
         thumbnailUrl: image,
         synopsis: description,
+        author: authors.join(", ") || undefined,
+        artist: artists.join(", ") || undefined,
         rating: rating,
-        contentRating: ContentRating.EVERYONE,
+        contentRating: this.contentRatings.classify(genres),
         status: status as "ONGOING" | "COMPLETED" | "UNKNOWN",
         tagGroups: tags,
       },
@@ -437,12 +674,13 @@ export class MangabuddyExtension implements BuddyImplementation {
 
   async getChapters(sourceManga: SourceManga): Promise<Chapter[]> {
     const request = {
-      url: `${baseUrl}/api/manga/${sourceManga.mangaId}/chapters?source=detail`,
+      url: `${this.baseUrl}/api/manga/${sourceManga.mangaId}/chapters?source=detail`,
       method: "GET",
     };
 
     const $ = await this.fetchCheerio(request);
-    const chapters: Chapter[] = [];
+    const entries: { chapterId: string; label: ChapterLabel; date: string }[] =
+      [];
 
     $(".chapter-list li").each((_, element) => {
       const li = $(element);
@@ -451,47 +689,43 @@ export class MangabuddyExtension implements BuddyImplementation {
 
       if (!chapterUrl) return;
 
-      // Extract the full chapter path from URL (everything after the manga ID)
-      // Examples:
-      // /shark/chapter-79-running-away -> chapter-79-running-away
-      // /shark/vol-1-chapter-63 -> vol-1-chapter-63
-      // /shark/chapter-62 -> chapter-62
-      const pathMatch = chapterUrl.match(/^\/[^/]+\/(.+)$/);
-      if (!pathMatch) return;
+      const chapterId = chapterIdFromUrl(chapterUrl);
+      if (!chapterId) return;
 
-      const chapterId = pathMatch[1]; // Full chapter path
-
-      // Extract chapter number for sorting
-      // Try multiple patterns: vol-X-chapter-Y, chapter-X-name, chapter-X
-      const numberMatch = chapterUrl.match(
-        /(?:vol-\d+-)?chapter-(\d+(?:\.\d+)?)/i,
-      );
-      if (!numberMatch) return;
+      const chapterTitle = link.find(".chapter-title").text().trim();
 
-      const chapterNumber = Number(numberMatch[1]);
-      if (isNaN(chapterNumber)) return;
+      // Prefer the listed title, falling back to the URL for the number
+      let label = parseChapterLabel(chapterTitle || chapterId);
+      if (label.number === undefined) {
+        const fromUrl = parseChapterLabel(chapterId);
+        if (fromUrl.number !== undefined) {
+          label = { ...fromUrl, title: chapterTitle || fromUrl.title };
+        }
+      }
 
-      const chapterTitle = link.find(".chapter-title").text().trim();
-      const dateText = link.find("time.chapter-update").text().trim();
-
-      chapters.push({
-        chapterId: chapterId,
-        title: chapterTitle,
-        sourceManga,
-        chapNum: chapterNumber,
-        publishDate: dateText
-          ? new Date(convertToISO8601(dateText))
-          : undefined,
-        volume: undefined,
-        langCode: "🇬🇧",
+      entries.push({
+        chapterId,
+        label,
+        date: link.find("time.chapter-update").text().trim(),
       });
     });
 
+    const numbers = numberChapters(entries.map((x) => x.label));
+    const chapters: Chapter[] = entries.map((entry, i) => ({
+      chapterId: entry.chapterId,
+      title: entry.label.title,
+      sourceManga,
+      chapNum: numbers[i],
+      publishDate: parseDate(entry.date, this.clock()),
+      volume: entry.label.volume,
+      langCode: "🇬🇧",
+    }));
+
     return chapters.sort((a, b) => b.chapNum - a.chapNum);
   }
 
   async getChapterDetails(chapter: Chapter): Promise<ChapterDetails> {
-    const chapterUrl = `${baseUrl}/${chapter.sourceManga.mangaId}/${chapter.chapterId}`;
+    const chapterUrl = `${this.baseUrl}/${chapter.sourceManga.mangaId}/${chapter.chapterId}`;
 
     try {
       const request: Request = { url: chapterUrl, method: "GET" };
@@ -518,7 +752,7 @@ export class MangabuddyExtension implements BuddyImplementation {
   }
 
   getMangaShareUrl(mangaId: string): string {
-    return `${baseUrl}/${mangaId}`;
+    return `${this.baseUrl}/${mangaId}`;
   }
 
   async getUpdatedSectionItems(
@@ -529,12 +763,13 @@ export class MangabuddyExtension implements BuddyImplementation {
     const collectedIds = metadata?.collectedIds ?? [];
 
     const request = {
-      url: `${baseUrl}/latest?page=${page}`,
+      url: `${this.baseUrl}/latest?page=${page}`,
       method: "GET",
     };
 
     const $ = await this.fetchCheerio(request);
     const items: DiscoverSectionItem[] = [];
+    const isBlocked = this.blockedGenres.forListing();
 
     $(".list.manga-list .book-detailed-item").each((_, element) => {
       const unit = $(element);
@@ -545,12 +780,22 @@ export class MangabuddyExtension implements BuddyImplementation {
         unit.find(".thumb img").attr("src") ||
         "";
       const mangaId = link.attr("href")?.substring(1) || "";
-      const latestChapter = unit.find(".thumb .latest-chapter").text().trim();
-      const chapterMatch = latestChapter.match(/Chapter (\d+)/i);
-      const subtitle = chapterMatch ? `Ch. ${chapterMatch[1]}` : undefined;
-      const chapterId = unit.find(".chapter-link").attr("data-id") || "0";
 
-      if (title && mangaId && !collectedIds.includes(mangaId)) {
+      // Use the chapter link so the ID matches the ones getChapters returns
+      const chapterLink = unit.find(".chapters .chapter-link").first();
+      const chapterId = chapterIdFromUrl(chapterLink.attr("href") || "");
+      const label = parseChapterLabel(
+        chapterLink.find(".chapter-name").text().trim() || chapterId || "",
+      );
+      const time = chapterLink.find(".chapter-time").text().trim();
+      const subtitle = [shortChapterTitle(label), time]
+        .filter((x) => x)
+        .join(" • ");
+
+      const genres = cardGenres($, unit);
+      if (isBlocked(mangaId, genres)) return;
+
+      if (title && mangaId && chapterId && !collectedIds.includes(mangaId)) {
         collectedIds.push(mangaId);
         items.push({
           type: "chapterUpdatesCarouselItem",
@@ -564,7 +809,7 @@ export class MangabuddyExtension implements BuddyImplementation {
       }
     });
 
-    const hasNextPage = !!$(".paginator .btn.link").not(".active").length;
+    const hasNextPage = hasNextPaginatorPage($);
 
     return {
       items: items,
@@ -578,12 +823,13 @@ export class MangabuddyExtension implements BuddyImplementation {
     metadata: { page?: number; collectedIds?: string[] } | undefined,
   ): Promise<PagedResults<DiscoverSectionItem>> {
     const request = {
-      url: `${baseUrl}/home`,
+      url: `${this.baseUrl}/home`,
       method: "GET",
     };
 
     const $ = await this.fetchCheerio(request);
     const items: DiscoverSectionItem[] = [];
+    const isBlocked = this.blockedGenres.forListing();
 
     $(".top-item").each((_, element) => {
       const unit = $(element);
@@ -598,6 +844,9 @@ export class MangabuddyExtension implements BuddyImplementation {
       const chapterMatch = latestChapter.match(/Chapter (\d+)/i);
       const supertitle = chapterMatch ? `Ch. ${chapterMatch[1]}` : "";
 
+      // Home page cards list no genres, so only titles seen before are checked
+      if (isBlocked(mangaId)) return;
+
       if (title && mangaId) {
         items.push({
           type: "featuredCarouselItem",
@@ -624,7 +873,7 @@ export class MangabuddyExtension implements BuddyImplementation {
     const collectedIds = metadata?.collectedIds ?? [];
 
     const request = {
-      url: new URLBuilder(baseUrl)
+      url: new URLBuilder(this.baseUrl)
         .addPath("search")
         .addQuery("status", "all")
         .addQuery("sort", "created_at")
@@ -636,35 +885,27 @@ export class MangabuddyExtension implements BuddyImplementation {
 
     const $ = await this.fetchCheerio(request);
     const items: DiscoverSectionItem[] = [];
+    const isBlocked = this.blockedGenres.forListing();
 
     $(".list.manga-list .book-detailed-item").each((_, element) => {
-      const item = $(element);
-      const link = item.find(".meta .title h3 a");
-      const title = link.text().trim();
-      const image =
-        item.find(".thumb img").attr("data-src") ||
-        item.find(".thumb img").attr("src") ||
-        "";
-      const mangaId = link.attr("href")?.substring(1) || "";
-      const latestChapter = item.find(".thumb .latest-chapter").text().trim();
-      const chapterMatch = latestChapter.match(/Chapter (\d+)/i);
-      const subtitle = chapterMatch ? `Ch. ${chapterMatch[1]}` : undefined;
+      const card = listingCard($, $(element));
+      if (isBlocked(card.mangaId, card.genres)) return;
 
-      if (title && mangaId && !collectedIds.includes(mangaId)) {
-        collectedIds.push(mangaId);
+      if (card.title && card.mangaId && !collectedIds.includes(card.mangaId)) {
+        collectedIds.push(card.mangaId);
         items.push(
           createDiscoverSectionItem({
-            id: mangaId,
-            image: image,
-            title: title,
-            subtitle: subtitle,
+            id: card.mangaId,
+            image: card.image,
+            title: card.title,
+            subtitle: card.chapter,
             type: "simpleCarouselItem",
           }),
         );
       }
     });
 
-    const hasNextPage = !!$(".paginator .btn.link").not(".active").length;
+    const hasNextPage = hasNextPaginatorPage($);
 
     return {
       items: items,
@@ -672,31 +913,249 @@ export class MangabuddyExtension implements BuddyImplementation {
     };
   }
 
-  async saveCloudflareBypassCookies(cookies: Cookie[]): Promise<void> {
-    for (const cookie of this.cookieStorageInterceptor.cookies) {
-      this.cookieStorageInterceptor.deleteCookie(cookie);
+  /**
+   * Pages through a listing laid out like search results, e.g. /top/day,
+   * /status/completed or /genres/action. Ranks count every card in site
+   * order, including ones dropped as repeats or for blocked genres.
+   */
+  async getListingSectionItems(
+    path: string,
+    metadata: BuddyMetadata | undefined,
+    options: { ranked: boolean; carousel?: boolean },
+  ): Promise<PagedResults<DiscoverSectionItem>> {
+    const page = metadata?.page ?? 1;
+    const offset = metadata?.offset ?? 0;
+    const collectedIds = metadata?.collectedIds ?? [];
+
+    const request = {
+      url: new URLBuilder(this.baseUrl)
+        .addPath(path)
+        .addQuery("page", page.toString())
+        .build(),
+      method: "GET",
+    };
+
+    const $ = await this.fetchCheerio(request);
+    const cards = $(".list.manga-list .book-detailed-item");
+    const items: DiscoverSectionItem[] = [];
+    const isBlocked = this.blockedGenres.forListing();
+
+    cards.each((index, element) => {
+      const card = listingCard($, $(element));
+      if (isBlocked(card.mangaId, card.genres)) return;
+      if (!card.title || !card.mangaId || collectedIds.includes(card.mangaId)) {
+        return;
+      }
+      collectedIds.push(card.mangaId);
+
+      if (options.carousel) {
+        items.push(
+          createDiscoverSectionItem({
+            id: card.mangaId,
+            image: card.image,
+            title: card.title,
+            subtitle: card.chapter,
+            type: "simpleCarouselItem",
+          }),
+        );
+        return;
+      }
+
+      items.push({
+        type: "featuredCarouselItem",
+        mangaId: card.mangaId,
+        imageUrl: card.image,
+        title: card.title,
+        supertitle: options.ranked
+          ? [`#${offset + index + 1}`, card.chapter]
+              .filter((x) => x)
+              .join(" • ")
+          : card.chapter,
+        metadata: undefined,
+      });
+    });
+
+    const hasNextPage = hasNextPaginatorPage($);
+
+    return {
+      items: items,
+      metadata: hasNextPage
+        ? { page: page + 1, offset: offset + cards.length, collectedIds }
+        : undefined,
+    };
+  }
+
+  async getManagedLibraryCollections(): Promise<ManagedCollection[]> {
+    return this.session.isLoggedIn() ? [bookmarksCollection] : [];
+  }
+
+  async getSourceMangaInManagedCollection(
+    collection: ManagedCollection,
+  ): Promise<SourceManga[]> {
+    if (collection.id != bookmarksCollection.id) return [];
+    return this.getBookmarks();
+  }
+
+  async commitManagedCollectionChanges(
+    changeset: ManagedCollectionChangeset,
+  ): Promise<void> {
+    if (changeset.collection.id != bookmarksCollection.id) return;
+
+    for (const manga of changeset.additions) {
+      await this.updateBookmark(manga.mangaId, "add");
     }
-    for (const cookie of cookies) {
-      if (cookie.expires && cookie.expires.getTime() <= Date.now()) {
-        continue;
+    for (const manga of changeset.deletions) {
+      await this.updateBookmark(manga.mangaId, "remove");
+    }
+  }
+
+  // Links library items to bookmarked titles with the same ID or title
+  async prepareLibraryItems(
+    libraryItems: PartialLibraryItem[],
+  ): Promise<LibraryItemSourceLinkProposal[]> {
+    const bookmarks = await this.getBookmarks();
+    const proposals: LibraryItemSourceLinkProposal[] = [];
+
+    for (const libraryItem of libraryItems) {
+      const sources = [
+        libraryItem.primarySource,
+        ...libraryItem.secondarySources,
+      ];
+      const titles = sources
+        .flatMap((x) => [
+          x.mangaInfo.primaryTitle,
+          ...x.mangaInfo.secondaryTitles,
+        ])
+        .map(normaliseTitle);
+
+      const bookmark = bookmarks.find(
+        (x) =>
+          sources.some((source) => source.mangaId == x.mangaId) ||
+          titles.includes(normaliseTitle(x.mangaInfo.primaryTitle)),
+      );
+      if (bookmark) {
+        proposals.push({ sourceManga: bookmark, libraryItem });
       }
-      this.cookieStorageInterceptor.setCookie(cookie);
     }
+
+    return proposals;
+  }
+
+  private async getBookmarks(): Promise<SourceManga[]> {
+    if (!this.session.isLoggedIn()) return [];
+
+    const bookmarks: SourceManga[] = [];
+    let hasNextPage = true;
+
+    for (let page = 1; hasNextPage && page <= maxBookmarkPages; page++) {
+      const $ = await this.fetchAccountPage({
+        url: `${this.baseUrl}/bookmark?page=${page}`,
+        method: "GET",
+      });
+
+      $(".list.manga-list .book-detailed-item").each((_, element) => {
+        const card = listingCard($, $(element));
+        if (!card.mangaId || !card.title) return;
+        if (bookmarks.some((x) => x.mangaId == card.mangaId)) return;
+
+        bookmarks.push({
+          mangaId: card.mangaId,
+          mangaInfo: {
+            primaryTitle: card.title,
+            secondaryTitles: [],
+            thumbnailUrl: card.image,
+            synopsis: "",
+            contentRating: this.contentRatings.classify(card.genres),
+          },
+        });
+      });
+
+      hasNextPage = hasNextPaginatorPage($);
+    }
+
+    return bookmarks;
   }
 
-  checkCloudflareStatus(status: number): void {
-    if (status == 503 || status == 403) {
-      throw new CloudflareError({ url: baseUrl, method: "GET" });
+  private async updateBookmark(
+    mangaId: string,
+    action: "add" | "remove",
+  ): Promise<void> {
+    const request: Request = {
+      url: `${this.baseUrl}/api/bookmark`,
+      method: "POST",
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+      body: `slug=${encodeURIComponent(mangaId)}&action=${action}`,
+    };
+
+    // Sent like page requests, without the response cache
+    const send = async () => {
+      const [response] = await this.mirrors.withFallback(request, (x) =>
+        this.schedulePage(x),
+      );
+      return response;
+    };
+
+    let response = await send();
+    if (response.status == 401) {
+      await this.session.renew();
+      response = await send();
+    }
+
+    // The API only redirects when it turns the change away, e.g. to the login
+    // page, whose body comes back under the redirect's status
+    if (response.status >= 300) {
+      throw new Error(
+        `Mangabuddy did not ${action} the bookmark for ${mangaId} (HTTP ${response.status})`,
+      );
+    }
+    // The title page shows whether it is bookmarked
+    this.responseCache.invalidate(`${this.baseUrl}/${mangaId}`);
+  }
+
+  // Fetches a page that needs the account, logging in again if the site
+  // dropped the session
+  private async fetchAccountPage(request: Request): Promise<CheerioAPI> {
+    const $ = await this.fetchCheerio(request);
+    if (!this.session.isSignedOutPage($)) return $;
+
+    await this.session.renew();
+    return this.fetchCheerio(request);
+  }
+
+  // Merged into the jar, so the account session and cookies for other hosts
+  // outlive a bypass
+  async saveCloudflareBypassCookies(cookies: Cookie[]): Promise<void> {
+    for (const cookie of cookies) {
+      this.cookieJar.setCookie(cookie);
     }
   }
 
   async fetchCheerio(request: Request): Promise<CheerioAPI> {
-    const [response, data] = await Application.scheduleRequest(request);
-    this.checkCloudflareStatus(response.status);
-    const htmlStr = Application.arrayBufferToUTF8String(data);
+    const htmlStr = await this.mirrors.withFallback(request, (x) =>
+      this.fetchPage(x),
+    );
     const dom = htmlparser2.parseDocument(htmlStr);
     return cheerio.load(dom);
   }
+
+  private async fetchPage(request: Request): Promise<string> {
+    const cached = this.responseCache.get(request);
+    if (cached !== undefined) return cached;
+
+    const [response, htmlStr] = await this.schedulePage(request);
+    // Redirected pages come back with the redirect's status, so stay uncached
+    if (response.status == 200) this.responseCache.set(request, htmlStr);
+    return htmlStr;
+  }
+
+  // Through the rate limiter, which retries throttled requests, with
+  // challenge pages thrown as errors
+  private async schedulePage(request: Request): Promise<[Response, string]> {
+    const [response, data] = await this.globalRateLimiter.schedule(request);
+    const htmlStr = Application.arrayBufferToUTF8String(data);
+    checkForChallenge(request, response, htmlStr, { blockedStatus: true });
+    return [response, htmlStr];
+  }
 }
 
 function createDiscoverSectionItem(options: {
@@ -716,42 +1175,95 @@ function createDiscoverSectionItem(options: {
   };
 }
 
-function convertToISO8601(dateText: string): string {
-  const now = new Date();
-
-  if (!dateText?.trim()) return now.toISOString();
-
-  if (/^yesterday$/i.test(dateText)) {
-    now.setDate(now.getDate() - 1);
-    return now.toISOString();
+function readGenreList(): { id: string; value: string }[] | undefined {
+  const stored = Application.getState(genreListKey) as
+    { genres?: unknown; expires?: unknown } | undefined;
+  if (
+    !stored ||
+    !Array.isArray(stored.genres) ||
+    typeof stored.expires !== "number" ||
+    stored.expires <= Date.now()
+  ) {
+    return undefined;
   }
+  return stored.genres as { id: string; value: string }[];
+}
 
-  const relativeMatch = dateText.match(
-    /(\d+)\s+(second|minute|hour|day)s?\s+ago/i,
+function saveGenreList(genres: { id: string; value: string }[]): void {
+  Application.setState(
+    { genres, expires: Date.now() + genreListTtl * 1000 },
+    genreListKey,
   );
-  if (relativeMatch) {
-    const [_, value, unit] = relativeMatch;
-    switch (unit.toLowerCase()) {
-      case "second":
-        now.setSeconds(now.getSeconds() - +value);
-        break;
-      case "minute":
-        now.setMinutes(now.getMinutes() - +value);
-        break;
-      case "hour":
-        now.setHours(now.getHours() - +value);
-        break;
-      case "day":
-        now.setDate(now.getDate() - +value);
-        break;
-    }
-    return now.toISOString();
-  }
+}
+
+// Values of a labelled line in the details meta box, e.g.
+// <p><strong>Authors :</strong><a><span>Kim Woo-Seob</span></a></p>
+function metaValues($: CheerioAPI, label: string): string[] {
+  const field = $(`.meta p strong:contains('${label}')`).first().parent();
+  if (field.length == 0) return [];
+
+  const links = field
+    .find("a")
+    .map((_, el) => $(el).text().trim().replace(/,\s*$/, ""))
+    .get()
+    .filter((x) => x);
+  if (links.length > 0) return links;
+
+  const text = field.text().replace(field.find("strong").text(), "").trim();
+  return text ? [text] : [];
+}
+
+// A card from search results and listings laid out like them
+function listingCard(
+  $: CheerioAPI,
+  card: ReturnType<CheerioAPI>,
+): {
+  mangaId: string;
+  title: string;
+  image: string;
+  chapter?: string;
+  genres: string[];
+} {
+  const link = card.find(".meta .title h3 a");
+  const latestChapter = card.find(".thumb .latest-chapter").text().trim();
+  const chapterMatch = latestChapter.match(/Chapter (\d+)/i);
+
+  return {
+    mangaId: link.attr("href")?.substring(1) || "",
+    title: link.text().trim(),
+    image:
+      card.find(".thumb img").attr("data-src") ||
+      card.find(".thumb img").attr("src") ||
+      "",
+    chapter: chapterMatch ? `Ch. ${chapterMatch[1]}` : undefined,
+    genres: cardGenres($, card),
+  };
+}
+
+// Lower-case letters and digits only, for matching titles across sources
+function normaliseTitle(title: string): string {
+  return title.toLowerCase().replace(/[^\p{L}\p{N}]+/gu, "");
+}
+
+// Genre names listed on search and latest cards
+function cardGenres($: CheerioAPI, card: ReturnType<CheerioAPI>): string[] {
+  return card
+    .find(".meta .genres span")
+    .map((_, el) => $(el).text().trim())
+    .get()
+    .filter((genre) => genre);
+}
+
+// Chapter IDs are the path after the manga ID, e.g.
+// /shark/chapter-79-running-away -> chapter-79-running-away
+// /shark/vol-1-chapter-63 -> vol-1-chapter-63
+function chapterIdFromUrl(url: string): string | undefined {
+  return url.match(/^(?:https?:\/\/[^/]+)?\/[^/]+\/(.+)$/)?.[1];
+}
 
-  const parsedDate = new Date(dateText);
-  return isNaN(parsedDate.getTime())
-    ? now.toISOString()
-    : parsedDate.toISOString();
+// Only links after the active page lead forward; earlier ones are previous pages
+function hasNextPaginatorPage($: CheerioAPI): boolean {
+  return $(".paginator .btn.link.active").nextAll(".btn.link").length > 0;
 }
 
 export const Mangabuddy = new MangabuddyExtension();
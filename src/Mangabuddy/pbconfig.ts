@@ -19,6 +19,8 @@ export default {
     SourceIntents.MANGA_SEARCH,
     SourceIntents.MANGA_CHAPTERS,
     SourceIntents.CLOUDFLARE_BYPASS_REQUIRED,
+    SourceIntents.SETTINGS_UI,
+    SourceIntents.COLLECTION_MANAGEMENT,
   ],
   developers: [
     {
@@ -0,0 +1,225 @@
+import { Cookie } from "@paperback/types";
+import * as cheerio from "cheerio";
+import { CheerioAPI } from "cheerio";
+import { CookieJar } from "./cookie-jar";
+import { resolveLocation } from "./redirects";
+
+interface AccountSessionOptions {
+  /** Site name for error messages, e.g. "Kaynscan" */
+  siteName: string;
+  /**
+   * Page with the login form. The form is posted back with its CSRF token
+   * and sets the session cookie. Asked for on each use, as the site's domain
+   * can change.
+   */
+  loginUrl: () => string;
+  logoutUrl: () => string;
+  sessionCookieName: string;
+  /** Secure state key the credentials are kept under */
+  credentialsKey: string;
+  /** Called after logging in or out */
+  onChange?: () => void;
+}
+
+interface Credentials {
+  email: string;
+  password: string;
+}
+
+/** Where the login form posts to and what it sends besides the credentials */
+interface LoginForm {
+  action: string;
+  emailField: string;
+  passwordField: string;
+  /** Hidden inputs, such as the CSRF token */
+  fields: [string, string][];
+}
+
+/** Thrown when the site refuses the email and password given in settings */
+class LoginError extends Error {
+  override readonly name = "LoginError";
+
+  constructor(siteName: string) {
+    super(`${siteName} did not accept that email and password.`);
+  }
+}
+
+/** Thrown when the login page cannot be loaded or shows no login form */
+class LoginFormError extends Error {
+  override readonly name = "LoginFormError";
+
+  constructor(
+    siteName: string,
+    readonly status: number,
+  ) {
+    super(`Could not load the ${siteName} login form (HTTP ${status}).`);
+  }
+}
+
+/**
+ * Thrown when the site dropped the session and logging in again with the
+ * saved credentials did not work either.
+ */
+class SessionExpiredError extends Error {
+  override readonly name = "SessionExpiredError";
+
+  constructor(siteName: string) {
+    super(`Your ${siteName} session expired. Log in again in the settings.`);
+  }
+}
+
+/**
+ * The site account in use. The session cookie lives in the cookie jar like
+ * any other cookie; the credentials are kept in secure state so that an
+ * expired session can be renewed without asking the user again.
+ */
+class AccountSession {
+  constructor(
+    private readonly options: AccountSessionOptions,
+    private readonly cookieJar: CookieJar,
+  ) {}
+
+  get email(): string | undefined {
+    return this.credentials()?.email;
+  }
+
+  isLoggedIn(): boolean {
+    return this.sessionCookie() !== undefined;
+  }
+
+  sessionCookie(): Cookie | undefined {
+    return this.cookieJar.cookies.find((x) => this.ownsCookie(x));
+  }
+
+  ownsCookie(cookie: Cookie): boolean {
+    return cookie.name == this.options.sessionCookieName;
+  }
+
+  async login(email: string, password: string): Promise<void> {
+    const form = await this.loginForm();
+    const fields: [string, string][] = [
+      ...form.fields,
+      [form.emailField, email],
+      [form.passwordField, password],
+    ];
+    const [response] = await Application.scheduleRequest({
+      url: form.action,
+      method: "POST",
+      headers: { "content-type": "application/x-www-form-urlencoded" },
+      body: fields
+        .map(([name, value]) => [name, value].map(encodeURIComponent).join("="))
+        .join("&"),
+    });
+
+    const cookie = response.cookies.find(
+      (x) => x.name == this.options.sessionCookieName,
+    );
+    if (response.status >= 400 || !cookie) {
+      // The login page may have set a guest session cookie of the same name
+      this.dropSessionCookie();
+      throw new LoginError(this.options.siteName);
+    }
+
+    // Stored even if the cookie jar interceptor is not registered yet
+    this.cookieJar.setCookie(cookie);
+    Application.setSecureState(
+      { email, password },
+      this.options.credentialsKey,
+    );
+    this.options.onChange?.();
+  }
+
+  async logout(): Promise<void> {
+    try {
+      await Application.scheduleRequest({
+        url: this.options.logoutUrl(),
+        method: "POST",
+      });
+    } catch (error) {
+      // The session is forgotten here whether or not the site ended it
+      console.error(`Failed to log out of ${this.options.siteName}:`, error);
+    }
+    this.forget();
+  }
+
+  /**
+   * Pages fetched with a session the site no longer knows show a login link
+   * and no logout link.
+   */
+  isSignedOutPage($: CheerioAPI): boolean {
+    return (
+      this.isLoggedIn() &&
+      $("a[href*='/logout'], form[action*='/logout']").length == 0 &&
+      $("a[href*='/login']").length > 0
+    );
+  }
+
+  /** Logs in again with the saved credentials after the site dropped the session */
+  async renew(): Promise<void> {
+    const credentials = this.credentials();
+    this.dropSessionCookie();
+
+    try {
+      if (!credentials) throw new LoginError(this.options.siteName);
+      await this.login(credentials.email, credentials.password);
+    } catch (error) {
+      console.error(
+        `Failed to renew the ${this.options.siteName} session:`,
+        error,
+      );
+      this.forget();
+      throw new SessionExpiredError(this.options.siteName);
+    }
+  }
+
+  // The session and CSRF cookies the page sets come back on the post
+  // through the cookie jar
+  private async loginForm(): Promise<LoginForm> {
+    const url = this.options.loginUrl();
+    const [response, data] = await Application.scheduleRequest({
+      url,
+      method: "GET",
+    });
+    const $ = cheerio.load(Application.arrayBufferToUTF8String(data));
+    const form = $("form:has(input[type='password'])").first();
+    if (response.status >= 400 || form.length == 0) {
+      throw new LoginFormError(this.options.siteName, response.status);
+    }
+
+    const hidden = form.find("input[type='hidden'][name]");
+    return {
+      action: resolveLocation(response.url || url, form.attr("action") || url),
+      emailField:
+        form.find("input[type='email'], input[name='email']").attr("name") ||
+        "email",
+      passwordField:
+        form.find("input[type='password']").attr("name") || "password",
+      fields: hidden
+        .toArray()
+        .map((x) => [$(x).attr("name") || "", $(x).attr("value") || ""]),
+    };
+  }
+
+  private forget(): void {
+    this.dropSessionCookie();
+    Application.setSecureState(undefined, this.options.credentialsKey);
+    this.options.onChange?.();
+  }
+
+  private dropSessionCookie(): void {
+    this.cookieJar.deleteCookies((x) => this.ownsCookie(x));
+  }
+
+  private credentials(): Credentials | undefined {
+    const value = Application.getSecureState(this.options.credentialsKey);
+    if (!value || typeof value !== "object") return undefined;
+
+    const { email, password } = value as Partial<Credentials>;
+    return typeof email === "string" && typeof password === "string"
+      ? { email, password }
+      : undefined;
+  }
+}
+
+export { AccountSession, LoginError, LoginFormError, SessionExpiredError };
+export type { AccountSessionOptions };
@@ -0,0 +1,139 @@
+interface ChapterLabel {
+  /** Chapter number as printed, undefined for prologues, extras and the like */
+  number?: number;
+  volume?: number;
+  season?: number;
+  /** Label without the volume, e.g. "Chapter 79 - Running Away" */
+  title: string;
+}
+
+const specialPattern =
+  /\b(prologue|epilogue|side[\s-]?story|extra|special|bonus|afterword|interlude|one[\s-]?shot|notice|announcement|hiatus)\b/i;
+const volumePattern = /\b(?:vol(?:ume)?)\.?\s*(\d+)\b/i;
+const seasonPattern = /\b(?:season\s*|s)(\d+)\b/i;
+const chapterPattern =
+  /\b(?:chapter|chap|ch|episode|ep)\.?\s*(\d+(?:\.\d+)?)\b/i;
+
+// Spacing between entries numbered after their predecessor
+const specialStep = 0.01;
+
+/**
+ * Parses a chapter label such as "Vol.1 Chapter 63", "Season 2 Ch. 5 - Home",
+ * "Chapter 12.5" or "Side Story 3". URL slugs like "vol-1-chapter-63" work
+ * too, but a label's own text is preferred when the site shows one.
+ */
+function parseChapterLabel(label: string): ChapterLabel {
+  const text = (/\s/.test(label.trim()) ? label : label.replace(/[-_]+/g, " "))
+    .replace(/\s+/g, " ")
+    .trim();
+
+  const volumeMatch = text.match(volumePattern);
+  const seasonMatch = text.match(seasonPattern);
+  const chapterMatch = text.match(chapterPattern);
+
+  const volume = volumeMatch ? Number(volumeMatch[1]) : undefined;
+  const season = seasonMatch ? Number(seasonMatch[1]) : undefined;
+
+  let number: number | undefined;
+  let name = "";
+
+  if (chapterMatch?.index !== undefined) {
+    number = Number(chapterMatch[1]);
+    name = text.slice(chapterMatch.index + chapterMatch[0].length);
+  } else if (!specialPattern.test(text)) {
+    // Bare numbers, e.g. "79 - Running Away" or "S2 5"
+    const withoutMarkers = text
+      .replace(volumePattern, "")
+      .replace(seasonPattern, "")
+      .trim();
+    const bareMatch = withoutMarkers.match(/^(\d+(?:\.\d+)?)\b/);
+    if (bareMatch) {
+      number = Number(bareMatch[1]);
+      name = withoutMarkers.slice(bareMatch[0].length);
+    }
+  }
+
+  if (number === undefined) {
+    const title = text.replace(volumePattern, "").replace(/^[\s\-:–—.]+/, "");
+    return { volume, season, title: capitalise(title.trim() || text) };
+  }
+
+  name = name.replace(/^[\s\-:–—.]+/, "").trim();
+  const prefix = season !== undefined ? `Season ${season} ` : "";
+  const title = `${prefix}Chapter ${number}${name ? ` - ${name}` : ""}`;
+
+  return { number, volume, season, title };
+}
+
+/**
+ * Assigns sortable chapter numbers to a newest-first chapter list:
+ * - numbered chapters keep their number
+ * - entries without one follow the chapter before them in reading order
+ *   (a prologue before chapter 1 becomes 0, an extra after 50 becomes 50.01)
+ * - a later season that restarts its numbering continues after the highest
+ *   number of the seasons before it
+ *
+ * Numbers only depend on the entries before them, so they stay the same as
+ * new chapters are released.
+ */
+function numberChapters(labels: ChapterLabel[]): number[] {
+  const numbers: number[] = new Array<number>(labels.length);
+
+  let previous: number | undefined;
+  let previousRaw: number | undefined;
+  let highest = 0;
+  let season = 1;
+  let seasonOffset = 0;
+  let specials = 0;
+
+  // Walk in reading order, i.e. oldest first
+  for (let i = labels.length - 1; i >= 0; i--) {
+    const label = labels[i];
+
+    if (label.number === undefined) {
+      specials += 1;
+      const value =
+        previous === undefined
+          ? (specials - 1) * specialStep
+          : previous + specials * specialStep;
+      numbers[i] = round(value);
+      highest = Math.max(highest, numbers[i]);
+      continue;
+    }
+
+    if (label.season !== undefined && label.season != season) {
+      const restarted =
+        label.season > season &&
+        previousRaw !== undefined &&
+        label.number <= previousRaw;
+      if (restarted) seasonOffset = Math.floor(highest);
+      season = label.season;
+    }
+
+    numbers[i] = round(seasonOffset + label.number);
+    highest = Math.max(highest, numbers[i]);
+    previous = numbers[i];
+    previousRaw = label.number;
+    specials = 0;
+  }
+
+  return numbers;
+}
+
+/** Short form for carousel subtitles, e.g. "Ch. 79" or "Side Story" */
+function shortChapterTitle(label: ChapterLabel): string {
+  if (label.number === undefined) return label.title;
+  const prefix = label.season !== undefined ? `S${label.season} ` : "";
+  return `${prefix}Ch. ${label.number}`;
+}
+
+function round(value: number): number {
+  return Math.round(value * 1000) / 1000;
+}
+
+function capitalise(value: string): string {
+  return value.charAt(0).toUpperCase() + value.slice(1);
+}
+
+export { numberChapters, parseChapterLabel, shortChapterTitle };
+export type { ChapterLabel };
@@ -0,0 +1,107 @@
+import { CloudflareError, Request, Response } from "@paperback/types";
+import { responseHeader, urlParts } from "./http";
+
+type ChallengeKind = "cloudflare" | "ddos-guard";
+
+interface ChallengeCheckOptions {
+  /**
+   * Also treat a bare 403 or 503 as a challenge. Site pages have always been
+   * checked this way; image hosts are not, since a refused hotlink is not
+   * something the bypass screen can fix.
+   */
+  blockedStatus?: boolean;
+}
+
+// Markers only found on interstitial pages, never on the site behind them.
+// Challenge platform scripts and Turnstile widgets are left out, as
+// Cloudflare also adds them to normal pages, login forms and comments.
+const bodyMarkers: [RegExp, ChallengeKind][] = [
+  [/<title>\s*Just a moment\.\.\.\s*<\/title>/i, "cloudflare"],
+  [/\b_cf_chl_opt\b/, "cloudflare"],
+  [/<title>\s*DDoS-Guard\s*<\/title>/i, "ddos-guard"],
+  [/check\.ddos-guard\.net|\/\.well-known\/ddos-guard\//, "ddos-guard"],
+];
+
+const challengeMessages: Record<ChallengeKind, string> = {
+  cloudflare: "Cloudflare bypass is required",
+  "ddos-guard": "DDoS-Guard bypass is required",
+};
+
+/**
+ * Works out whether a response is a bot challenge rather than the page that
+ * was asked for. Challenges are often served with 200, so the headers and
+ * body are what count; the body is optional for responses that are not text.
+ */
+function detectChallenge(
+  response: Response,
+  body?: string,
+): ChallengeKind | undefined {
+  const mitigated = responseHeader(response, "cf-mitigated") ?? "";
+  if (mitigated.toLowerCase() == "challenge") {
+    return "cloudflare";
+  }
+
+  if (body) {
+    const marker = bodyMarkers.find(([pattern]) => pattern.test(body));
+    if (marker) return marker[1];
+  }
+
+  // Cloudflare names itself as the server of every response it proxies, so
+  // only DDoS-Guard's server header says anything about a blocked status
+  if (response.status == 403 || response.status == 503) {
+    const server = (responseHeader(response, "server") ?? "").toLowerCase();
+    if (server.includes("ddos-guard")) return "ddos-guard";
+  }
+
+  return undefined;
+}
+
+// The bypass has to run on the host that challenged us, which for images is
+// the CDN rather than the site
+function challengedSite(url: string): string {
+  const origin = urlParts(url)?.origin ?? url;
+  return origin.replace(/^http:/i, "https:");
+}
+
+/** Throws {@link CloudflareError} for the challenged host if there is one. */
+function checkForChallenge(
+  request: Request,
+  response: Response,
+  body?: string,
+  options: ChallengeCheckOptions = {},
+): void {
+  let kind = detectChallenge(response, body);
+  if (
+    !kind &&
+    options.blockedStatus &&
+    (response.status == 403 || response.status == 503)
+  ) {
+    kind = "cloudflare";
+  }
+  if (!kind) return;
+
+  throw new CloudflareError(
+    { url: challengedSite(response.url || request.url), method: "GET" },
+    challengeMessages[kind],
+  );
+}
+
+/**
+ * The check interceptors run on every response, images included. Only text
+ * bodies are decoded, as challenge pages are always served as HTML.
+ */
+function checkInterceptedResponse(
+  request: Request,
+  response: Response,
+  data: ArrayBuffer,
+): void {
+  const contentType =
+    responseHeader(response, "content-type") ?? response.mimeType;
+  const body = /^text\//i.test(contentType ?? "")
+    ? Application.arrayBufferToUTF8String(data)
+    : undefined;
+  checkForChallenge(request, response, body);
+}
+
+export { checkForChallenge, checkInterceptedResponse, detectChallenge };
+export type { ChallengeCheckOptions, ChallengeKind };
@@ -0,0 +1,58 @@
+import { ContentRating } from "@paperback/types";
+import { normaliseGenre } from "./genres";
+
+/** Genre name → rating, keyed by lower-case names with spaces */
+type GenreRatings = Record<string, ContentRating>;
+
+const defaultGenreRatings: GenreRatings = {
+  adult: ContentRating.ADULT,
+  hentai: ContentRating.ADULT,
+  smut: ContentRating.ADULT,
+  pornographic: ContentRating.ADULT,
+  mature: ContentRating.MATURE,
+  ecchi: ContentRating.MATURE,
+  yaoi: ContentRating.MATURE,
+  yuri: ContentRating.MATURE,
+  gore: ContentRating.MATURE,
+};
+
+const ratingOrder = [
+  ContentRating.EVERYONE,
+  ContentRating.MATURE,
+  ContentRating.ADULT,
+];
+
+/**
+ * Rates a title by the strictest of its genres. Sources pass overrides for
+ * genre names only they use, or that they use differently.
+ */
+class ContentRatingClassifier {
+  private readonly ratings: GenreRatings;
+
+  constructor(overrides: GenreRatings = {}) {
+    this.ratings = { ...defaultGenreRatings };
+    for (const [genre, rating] of Object.entries(overrides)) {
+      this.ratings[normaliseGenre(genre)] = rating;
+    }
+  }
+
+  /** Accepts genre names or slugs, e.g. "Soft Yaoi" or "soft-yaoi" */
+  classify(genres: string[]): ContentRating {
+    let rating = ContentRating.EVERYONE;
+
+    for (const genre of genres) {
+      const genreRating = this.ratings[normaliseGenre(genre)];
+      if (
+        genreRating &&
+        ratingOrder.indexOf(genreRating) > ratingOrder.indexOf(rating)
+      ) {
+        rating = genreRating;
+      }
+    }
+
+    return rating;
+  }
+}
+
+export { ContentRatingClassifier };
+export type { GenreRatings };
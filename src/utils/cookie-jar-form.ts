@@ -0,0 +1,85 @@
+import {
+  ButtonRow,
+  CloudflareError,
+  Cookie,
+  Form,
+  LabelRow,
+  Section,
+} from "@paperback/types";
+import { CookieJar } from "./cookie-jar";
+
+const clearanceCookieName = "cf_clearance";
+
+interface CookieJarFormOptions {
+  jar: CookieJar;
+  /** Page the bypass is run against, e.g. "https://mangabuddy.com" */
+  siteUrl: string;
+  /** Cookies "Clear Cookies" leaves alone, such as the account session */
+  keep?: (cookie: Cookie) => boolean;
+}
+
+/** Settings page listing a source's stored cookies */
+class CookieJarForm extends Form {
+  constructor(private readonly options: CookieJarFormOptions) {
+    super();
+  }
+
+  override getSections(this: CookieJarForm): Application.FormSectionElement[] {
+    const cookies = this.options.jar.cookies;
+    const clearance = cookies.find((x) => x.name == clearanceCookieName);
+
+    return [
+      Section("clearance", [
+        LabelRow("clearance_expiry", {
+          title: "Cloudflare Clearance",
+          subtitle: clearance?.domain,
+          value: clearance ? cookieExpiry(clearance) : "None",
+        }),
+        ButtonRow("rerun_bypass", {
+          title: "Run Bypass Again",
+          onSelect: Application.Selector(this, "handleRerunBypass"),
+        }),
+      ]),
+      Section(
+        "cookies",
+        cookies.length > 0
+          ? cookies.map((x, i) =>
+              LabelRow(`cookie_${i}`, {
+                title: x.name,
+                subtitle: `${x.domain}${x.path ?? "/"}`,
+                value: cookieExpiry(x),
+              }),
+            )
+          : [LabelRow("no_cookies", { title: "No cookies stored" })],
+      ),
+      Section("actions", [
+        ButtonRow("clear_cookies", {
+          title: "Clear Cookies",
+          onSelect: Application.Selector(this, "handleClearCookies"),
+        }),
+      ]),
+    ];
+  }
+
+  async handleClearCookies(): Promise<void> {
+    const keep = this.options.keep ?? (() => false);
+    this.options.jar.deleteCookies((x) => !keep(x));
+    this.reloadForm();
+  }
+
+  // Throwing the bypass error is how the app is asked to open the bypass
+  // screen; the old clearance goes first so a stale one is not sent along
+  async handleRerunBypass(): Promise<void> {
+    this.options.jar.deleteCookies((x) => x.name == clearanceCookieName);
+    this.reloadForm();
+    throw new CloudflareError({ url: this.options.siteUrl, method: "GET" });
+  }
+}
+
+function cookieExpiry(cookie: Cookie): string {
+  if (!cookie.expires) return "Session";
+  return `Until ${cookie.expires.toISOString().slice(0, 16).replace("T", " ")} UTC`;
+}
+
+export { CookieJarForm };
+export type { CookieJarFormOptions };
@@ -0,0 +1,160 @@
+import {
+  Cookie,
+  PaperbackInterceptor,
+  Request,
+  Response,
+} from "@paperback/types";
+import { urlParts } from "./http";
+
+const cookieStateKey = "cookie_jar";
+
+// Cookies are kept in state with plain timestamps, which survive being
+// serialised where Date objects may not
+interface StoredCookie {
+  name: string;
+  value: string;
+  domain: string;
+  path?: string;
+  expires?: number;
+}
+
+/**
+ * The cookies a source sends, kept in state so bypass and login cookies
+ * survive a restart. Cookies go to requests whose host is their domain or a
+ * subdomain of it and whose path is under theirs, like in a browser, and
+ * expired ones are dropped whenever the jar is read.
+ */
+class CookieJar extends PaperbackInterceptor {
+  private jar: Cookie[];
+
+  constructor(id = "cookie_store") {
+    super(id);
+    this.jar = this.load();
+  }
+
+  get cookies(): Cookie[] {
+    this.prune();
+    return [...this.jar];
+  }
+
+  cookiesForUrl(url: string): Cookie[] {
+    const target = urlParts(url);
+    if (!target) return [];
+
+    // The most specific path wins when a name is set more than once
+    const matches = this.cookies
+      .filter(
+        (x) =>
+          domainMatches(target.host, cookieDomain(x)) &&
+          pathMatches(target.path, cookiePath(x)),
+      )
+      .sort((a, b) => cookiePath(a).length - cookiePath(b).length);
+    return [...new Map(matches.map((x) => [x.name, x])).values()];
+  }
+
+  /** Stores a cookie, replacing one with the same name, domain and path */
+  setCookie(cookie: Cookie): void {
+    this.jar = this.jar.filter((x) => !sameCookie(x, cookie));
+    if (!isExpired(cookie)) this.jar.push(cookie);
+    this.save();
+  }
+
+  deleteCookie(cookie: Cookie): void {
+    this.deleteCookies((x) => sameCookie(x, cookie));
+  }
+
+  deleteCookies(predicate: (cookie: Cookie) => boolean): void {
+    this.jar = this.jar.filter((x) => !predicate(x));
+    this.save();
+  }
+
+  override async interceptRequest(request: Request): Promise<Request> {
+    const cookies = Object.fromEntries(
+      this.cookiesForUrl(request.url).map((x) => [x.name, x.value]),
+    );
+    // Cookies a request sets itself win over stored ones
+    request.cookies = { ...cookies, ...request.cookies };
+    return request;
+  }
+
+  override async interceptResponse(
+    request: Request,
+    response: Response,
+    data: ArrayBuffer,
+  ): Promise<ArrayBuffer> {
+    const host = urlParts(response.url || request.url)?.host;
+
+    // Sites delete a cookie by sending it again with an expiry in the past,
+    // which setCookie handles by not storing it
+    for (const cookie of response.cookies ?? []) {
+      this.setCookie(
+        cookie.domain || !host ? cookie : { ...cookie, domain: host },
+      );
+    }
+    return data;
+  }
+
+  private prune(): void {
+    if (!this.jar.some(isExpired)) return;
+
+    this.jar = this.jar.filter((x) => !isExpired(x));
+    this.save();
+  }
+
+  private load(): Cookie[] {
+    const stored = Application.getState(cookieStateKey);
+    if (!Array.isArray(stored)) return [];
+
+    return (stored as StoredCookie[])
+      .map((x) => ({
+        name: x.name,
+        value: x.value,
+        domain: x.domain,
+        path: x.path,
+        expires: x.expires !== undefined ? new Date(x.expires) : undefined,
+      }))
+      .filter((x) => !isExpired(x));
+  }
+
+  private save(): void {
+    const stored: StoredCookie[] = this.jar.map((x) => ({
+      name: x.name,
+      value: x.value,
+      domain: x.domain,
+      path: x.path,
+      expires: x.expires?.getTime(),
+    }));
+    Application.setState(stored, cookieStateKey);
+  }
+}
+
+function cookieDomain(cookie: Cookie): string {
+  return cookie.domain.replace(/^\./, "").toLowerCase();
+}
+
+function cookiePath(cookie: Cookie): string {
+  return cookie.path?.startsWith("/") ? cookie.path : "/";
+}
+
+function domainMatches(host: string, domain: string): boolean {
+  return host == domain || host.endsWith(`.${domain}`);
+}
+
+function pathMatches(path: string, prefix: string): boolean {
+  if (path == prefix || prefix == "/") return true;
+  return path.startsWith(prefix.endsWith("/") ? prefix : `${prefix}/`);
+}
+
+function sameCookie(a: Cookie, b: Cookie): boolean {
+  return (
+    a.name == b.name &&
+    cookieDomain(a) == cookieDomain(b) &&
+    cookiePath(a) == cookiePath(b)
+  );
+}
+
+function isExpired(cookie: Cookie): boolean {
+  return cookie.expires !== undefined && cookie.expires.getTime() <= Date.now();
+}
+
+export { CookieJar };
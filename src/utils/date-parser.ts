@@ -0,0 +1,185 @@
+/** Returns the current time; sources take one so dates are reproducible */
+type Clock = () => Date;
+
+const systemClock: Clock = () => new Date();
+
+type RelativeUnit =
+  "second" | "minute" | "hour" | "day" | "week" | "month" | "year";
+
+const unitAliases: Record<string, RelativeUnit> = {
+  s: "second",
+  sec: "second",
+  second: "second",
+  m: "minute",
+  min: "minute",
+  minute: "minute",
+  h: "hour",
+  hr: "hour",
+  hour: "hour",
+  d: "day",
+  day: "day",
+  w: "week",
+  wk: "week",
+  week: "week",
+  mo: "month",
+  month: "month",
+  y: "year",
+  yr: "year",
+  year: "year",
+};
+
+const monthNames = [
+  "jan",
+  "feb",
+  "mar",
+  "apr",
+  "may",
+  "jun",
+  "jul",
+  "aug",
+  "sep",
+  "oct",
+  "nov",
+  "dec",
+];
+
+/**
+ * Parses the dates chapter lists show, relative to `now`:
+ * - "just now", "today", "yesterday"
+ * - "5 minutes ago", "an hour ago", "3 wks ago", "2 months ago"
+ * - "in 3 days", "in a week", for dates still to come
+ * - "Oct 05, 2025", "5 October 2025", "2025-10-05" and full ISO timestamps
+ *
+ * Months and years move by calendar, so one month before March 31 is the
+ * last day of February. Returns undefined for text it does not recognise.
+ */
+function parseDate(text: string, now: Date = systemClock()): Date | undefined {
+  const value = text.trim().toLowerCase().replace(/\s+/g, " ");
+  if (!value) return undefined;
+
+  if (
+    /^(just now|now|today|a moment ago|moments ago|a few seconds ago)$/.test(
+      value,
+    )
+  ) {
+    return new Date(now.getTime());
+  }
+  if (value == "yesterday") {
+    return subtract(now, 1, "day");
+  }
+
+  const relativeMatch = value.match(/^(an?|\d+)\s*([a-z]+?)s?\.?\s+ago$/);
+  if (relativeMatch) {
+    const amount = /^an?$/.test(relativeMatch[1])
+      ? 1
+      : Number(relativeMatch[1]);
+    const unit = unitAliases[relativeMatch[2]];
+    if (unit) return subtract(now, amount, unit);
+  }
+
+  const futureMatch = value.match(/^in (an?|\d+)\s*([a-z]+?)s?\.?$/);
+  if (futureMatch) {
+    const amount = /^an?$/.test(futureMatch[1]) ? 1 : Number(futureMatch[1]);
+    const unit = unitAliases[futureMatch[2]];
+    if (unit) return subtract(now, -amount, unit);
+  }
+
+  return parseAbsoluteDate(value);
+}
+
+function parseAbsoluteDate(value: string): Date | undefined {
+  // Oct 05, 2025 / October 5 2025
+  const monthFirst = value.match(
+    /^([a-z]+)\.? (\d{1,2})(?:st|nd|rd|th)?,? (\d{4})$/,
+  );
+  if (monthFirst) {
+    return utcDate(
+      Number(monthFirst[3]),
+      monthIndex(monthFirst[1]),
+      Number(monthFirst[2]),
+    );
+  }
+
+  // 5 October 2025 / 05 Oct, 2025
+  const dayFirst = value.match(
+    /^(\d{1,2})(?:st|nd|rd|th)? ([a-z]+)\.?,? (\d{4})$/,
+  );
+  if (dayFirst) {
+    return utcDate(
+      Number(dayFirst[3]),
+      monthIndex(dayFirst[2]),
+      Number(dayFirst[1]),
+    );
+  }
+
+  // 2025-10-05
+  const isoDay = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  if (isoDay) {
+    return utcDate(Number(isoDay[1]), Number(isoDay[2]) - 1, Number(isoDay[3]));
+  }
+
+  // 2025-10-05T12:30:00Z and other full timestamps
+  if (/^\d{4}-\d{2}-\d{2}t/.test(value)) {
+    const parsed = new Date(value.toUpperCase());
+    return isNaN(parsed.getTime()) ? undefined : parsed;
+  }
+
+  return undefined;
+}
+
+function subtract(now: Date, amount: number, unit: RelativeUnit): Date {
+  const date = new Date(now.getTime());
+
+  switch (unit) {
+    case "second":
+      date.setTime(date.getTime() - amount * 1000);
+      break;
+    case "minute":
+      date.setTime(date.getTime() - amount * 60 * 1000);
+      break;
+    case "hour":
+      date.setTime(date.getTime() - amount * 60 * 60 * 1000);
+      break;
+    case "day":
+      date.setUTCDate(date.getUTCDate() - amount);
+      break;
+    case "week":
+      date.setUTCDate(date.getUTCDate() - amount * 7);
+      break;
+    case "month":
+      return subtractMonths(date, amount);
+    case "year":
+      return subtractMonths(date, amount * 12);
+  }
+
+  return date;
+}
+
+// Clamps to the last day of the target month instead of overflowing into
+// the next one, e.g. March 31 minus one month is February 28/29
+function subtractMonths(date: Date, months: number): Date {
+  const day = date.getUTCDate();
+  const result = new Date(date.getTime());
+  result.setUTCDate(1);
+  result.setUTCMonth(result.getUTCMonth() - months);
+
+  const lastDay = new Date(
+    Date.UTC(result.getUTCFullYear(), result.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  result.setUTCDate(Math.min(day, lastDay));
+  return result;
+}
+
+function monthIndex(name: string): number {
+  return monthNames.indexOf(name.slice(0, 3));
+}
+
+function utcDate(year: number, month: number, day: number): Date | undefined {
+  if (month < 0 || day < 1 || day > 31) return undefined;
+  const date = new Date(Date.UTC(year, month, day));
+  // Reject days the month does not have instead of rolling over
+  return date.getUTCMonth() == month ? date : undefined;
+}
+
+export { parseDate, systemClock };
+export type { Clock };
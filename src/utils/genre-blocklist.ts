@@ -0,0 +1,109 @@
+import { normaliseGenre } from "./genres";
+import { Preference } from "./preferences";
+
+const genreCacheKey = "genre_cache";
+
+// Oldest titles are dropped from the cache past this many
+const maxCachedTitles = 1000;
+
+/** Genres remembered from title details, oldest first */
+type GenreCache = Record<string, string[]>;
+
+/** Whether a listing card is blocked, given the genres it shows if any */
+type BlockedCheck = (mangaId: string, cardGenres?: string[]) => boolean;
+
+/** Thrown for the details of a title with a blocked genre */
+class BlockedTitleError extends Error {
+  override readonly name = "BlockedTitleError";
+
+  constructor(
+    readonly mangaId: string,
+    readonly genres: string[],
+  ) {
+    super(`${mangaId} is hidden for its blocked genres: ${genres.join(", ")}.`);
+  }
+}
+
+/**
+ * Genres the user never wants to see titles of. Listings check a card's own
+ * genres, or the genres remembered from the title's details when the card
+ * does not show any. Titles neither source knows about are kept. Details of
+ * a blocked title are refused.
+ */
+class GenreBlocklist {
+  readonly preference = new Preference<string[]>("blocked_genres", []);
+
+  get(): string[] {
+    return this.preference.get();
+  }
+
+  set(genres: string[]): void {
+    this.preference.set(genres);
+  }
+
+  /**
+   * Records a title's genres from its details for later listings, and throws
+   * BlockedTitleError when one of them is blocked
+   */
+  checkDetails(mangaId: string, genres: string[]): void {
+    this.remember(mangaId, genres);
+
+    const blocked = this.blockedOf(genres);
+    if (blocked.length > 0) throw new BlockedTitleError(mangaId, blocked);
+  }
+
+  /**
+   * A check for the cards of one listing. The blocked genres are read once,
+   * and the remembered details only once a card without genres comes up.
+   */
+  forListing(): BlockedCheck {
+    const blocked = this.get().map(normaliseGenre);
+    if (blocked.length == 0) return () => false;
+
+    let cache: GenreCache | undefined;
+    return (mangaId, cardGenres = []) => {
+      const genres =
+        cardGenres.length > 0
+          ? cardGenres
+          : ((cache ??= readGenreCache())[mangaId] ?? []);
+      return genres.some((genre) => blocked.includes(normaliseGenre(genre)));
+    };
+  }
+
+  isBlocked(mangaId: string, cardGenres: string[] = []): boolean {
+    return this.forListing()(mangaId, cardGenres);
+  }
+
+  /**
+   * Records a title's genres from its details for later listings. The cache
+   * is only written when the title is new or its genres changed.
+   */
+  remember(mangaId: string, genres: string[]): void {
+    const cache = readGenreCache();
+    if (cache[mangaId]?.join("\n") === genres.join("\n")) return;
+
+    const updated = { ...cache };
+    delete updated[mangaId];
+    updated[mangaId] = genres;
+
+    const mangaIds = Object.keys(updated);
+    const overflow = Math.max(0, mangaIds.length - maxCachedTitles);
+    for (const stale of mangaIds.slice(0, overflow)) {
+      delete updated[stale];
+    }
+
+    Application.setState(updated, genreCacheKey);
+  }
+
+  private blockedOf(genres: string[]): string[] {
+    const blocked = this.get().map(normaliseGenre);
+    return genres.filter((genre) => blocked.includes(normaliseGenre(genre)));
+  }
+}
+
+function readGenreCache(): GenreCache {
+  const cache = Application.getState(genreCacheKey);
+  return cache && typeof cache === "object" ? (cache as GenreCache) : {};
+}
+
+export { BlockedTitleError, GenreBlocklist };
@@ -0,0 +1,12 @@
+/**
+ * Compares genre names and slugs alike, e.g. "Martial Arts", "martial-arts"
+ * and "martial_arts" all become "martial arts".
+ */
+function normaliseGenre(genre: string): string {
+  return genre
+    .trim()
+    .toLowerCase()
+    .replace(/[\s_-]+/g, " ");
+}
+
+export { normaliseGenre };
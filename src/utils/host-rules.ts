@@ -0,0 +1,206 @@
+import { PaperbackInterceptor, Request, Response } from "@paperback/types";
+import { checkInterceptedResponse } from "./cloudflare";
+import { urlParts } from "./http";
+import {
+  isPermanentRedirect,
+  keepsMethod,
+  RedirectFailedError,
+  RedirectPolicyOptions,
+  redirectTarget,
+  resolveLocation,
+  sameSite,
+  SiteMovedError,
+  TooManyRedirectsError,
+} from "./redirects";
+
+interface HostRule {
+  /**
+   * Hosts the rule covers. "*.example.com" also covers example.com's
+   * subdomains and "*" covers every host. The first matching rule applies.
+   */
+  hosts: string[];
+  /** Headers added to requests that do not set them already */
+  headers?: Record<string, string>;
+  /** Sends http:// requests, and redirects to http://, over HTTPS instead */
+  upgradeHttps?: boolean;
+  /**
+   * Further hosts, in the same form, that redirects from these hosts may go
+   * to. Without it a redirect may go anywhere.
+   */
+  allowedRedirects?: string[];
+}
+
+/** Accept header for image CDNs, as a browser sends it for <img> */
+const imageAccept = "image/avif,image/webp,image/apng,image/*,*/*;q=0.8";
+
+// Marks the hops of one redirect chain with the chain's number, as the same
+// URL can be a hop of one chain and a request of its own at the same time
+const hopHeader = "x-redirect-hop";
+
+/** Thrown when a site redirects to a host its rule does not allow */
+class RedirectBlockedError extends Error {
+  override readonly name = "RedirectBlockedError";
+
+  constructor(
+    readonly from: string,
+    readonly to: string,
+  ) {
+    super(`Refused to follow a redirect from ${from} to ${to}.`);
+  }
+}
+
+/**
+ * Applies each host's rule to the requests a source makes, so site pages,
+ * APIs and image CDNs each get the headers they expect. Every response is
+ * also checked for bot challenges here, as images never reach fetchCheerio.
+ */
+class HostRulesInterceptor extends PaperbackInterceptor {
+  // Redirect chains in flight, see interceptResponse
+  private chains = new Set<string>();
+  private lastChain = 0;
+
+  constructor(
+    id: string,
+    /** Replaced by the source when its site moves to another domain */
+    public rules: HostRule[],
+    private readonly redirects: RedirectPolicyOptions = {},
+  ) {
+    super(id);
+  }
+
+  ruleFor(url: string): HostRule | undefined {
+    const host = urlParts(url)?.host;
+    return host
+      ? this.rules.find((x) => hostMatches(host, x.hosts))
+      : undefined;
+  }
+
+  override async interceptRequest(request: Request): Promise<Request> {
+    const rule = this.ruleFor(request.url);
+    if (rule?.upgradeHttps) request.url = upgradeHttps(request.url);
+
+    request.headers = {
+      "user-agent": await Application.getDefaultUserAgent(),
+      ...rule?.headers,
+      ...request.headers,
+    };
+    return request;
+  }
+
+  override async interceptResponse(
+    request: Request,
+    response: Response,
+    data: ArrayBuffer,
+  ): Promise<ArrayBuffer> {
+    checkInterceptedResponse(request, response, data);
+
+    // Hops are requested through the app as well, and come back here; the
+    // first request's call follows the whole chain
+    const chain = request.headers?.[hopHeader];
+    if (!redirectTarget(response) || (chain && this.chains.has(chain))) {
+      return data;
+    }
+    return this.followRedirects(request, response, data);
+  }
+
+  // Only the data can be replaced here: the caller still gets the first
+  // response, so a followed redirect reaches it with its 3xx status
+  private async followRedirects(
+    request: Request,
+    response: Response,
+    data: ArrayBuffer,
+  ): Promise<ArrayBuffer> {
+    const maxRedirects = this.redirects.maxRedirects ?? 5;
+    const visited = [request.url];
+    const chain = String(++this.lastChain);
+    let current = request;
+    let target = redirectTarget(response);
+
+    this.chains.add(chain);
+    try {
+      while (target) {
+        const next = this.redirectRequest(current, response, target);
+        if (visited.includes(next.url) || visited.length > maxRedirects) {
+          throw new TooManyRedirectsError(request.url, visited.length - 1);
+        }
+        visited.push(next.url);
+
+        next.headers = { ...next.headers, [hopHeader]: chain };
+        [response, data] = await Application.scheduleRequest(next);
+        current = next;
+        target = redirectTarget(response);
+      }
+    } finally {
+      this.chains.delete(chain);
+    }
+
+    if (response.status >= 400) {
+      throw new RedirectFailedError(current.url, response.status);
+    }
+    return data;
+  }
+
+  // The request for one hop, after checking the rule allows it
+  private redirectRequest(
+    request: Request,
+    response: Response,
+    location: string,
+  ): Request {
+    const rule = this.ruleFor(request.url);
+    let url = resolveLocation(request.url, location);
+    const from = urlParts(request.url);
+    const to = urlParts(url);
+
+    if (from && to && !sameSite(from.host, to.host)) {
+      const move = isPermanentRedirect(response.status)
+        ? { from: from.origin, to: to.origin }
+        : undefined;
+      if (move) this.redirects.onDomainMove?.(move);
+
+      if (
+        rule?.allowedRedirects &&
+        !hostMatches(to.host, [...rule.hosts, ...rule.allowedRedirects])
+      ) {
+        throw move
+          ? new SiteMovedError(move)
+          : new RedirectBlockedError(request.url, url);
+      }
+    }
+    if (rule?.upgradeHttps || this.ruleFor(url)?.upgradeHttps) {
+      url = upgradeHttps(url);
+    }
+
+    // Cookies the site just set have not reached the cookie jar yet, so they
+    // go along by hand, but only within the same site
+    const cookies =
+      from && to && sameSite(from.host, to.host)
+        ? {
+            ...request.cookies,
+            ...Object.fromEntries(
+              response.cookies.map((x) => [x.name, x.value]),
+            ),
+          }
+        : undefined;
+
+    return keepsMethod(response.status)
+      ? { ...request, url, cookies }
+      : { url, method: "GET", cookies };
+  }
+}
+
+function hostMatches(host: string, patterns: string[]): boolean {
+  return patterns.some((pattern) => {
+    if (pattern == "*") return true;
+    if (!pattern.startsWith("*.")) return host == pattern;
+
+    const domain = pattern.slice(2);
+    return host == domain || host.endsWith(`.${domain}`);
+  });
+}
+
+function upgradeHttps(url: string): string {
+  return url.replace(/^http:\/\//i, "https://");
+}
+
+export { HostRulesInterceptor, imageAccept, RedirectBlockedError };
+export type { HostRule };
@@ -0,0 +1,46 @@
+import { Response } from "@paperback/types";
+
+interface UrlParts {
+  /** Scheme and host, e.g. "https://mangabuddy.com" */
+  origin: string;
+  /** Lower-cased host name without the port */
+  host: string;
+  /** Path without query or fragment, at least "/" */
+  path: string;
+}
+
+function urlParts(url: string): UrlParts | undefined {
+  const match = url.match(/^(https?:\/\/([^/?#:]+)(?::\d+)?)([^?#]*)/i);
+  if (!match) return undefined;
+  return {
+    origin: match[1],
+    host: match[2].toLowerCase(),
+    path: match[3] || "/",
+  };
+}
+
+/**
+ * A URL in one canonical form, for use as a key: scheme and host lower-cased,
+ * fragment dropped and query parameters sorted.
+ */
+function normaliseUrl(url: string): string {
+  const [address, query = ""] = url.split("#")[0].split(/\?(.*)/s);
+  const parts = urlParts(address);
+  const base = parts ? `${parts.origin.toLowerCase()}${parts.path}` : address;
+  const params = query
+    .split("&")
+    .filter((x) => x)
+    .sort();
+  return params.length > 0 ? `${base}?${params.join("&")}` : base;
+}
+
+/** A response header by case-insensitive name */
+function responseHeader(response: Response, name: string): string | undefined {
+  const key = Object.keys(response.headers ?? {}).find(
+    (x) => x.toLowerCase() == name.toLowerCase(),
+  );
+  return key ? response.headers[key] : undefined;
+}
+
+export { normaliseUrl, responseHeader, urlParts };
+export type { UrlParts };
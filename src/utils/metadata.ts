@@ -0,0 +1,114 @@
+import { TagSection } from "@paperback/types";
+
+const countSuffixes: Record<string, number> = {
+  k: 1_000,
+  m: 1_000_000,
+  b: 1_000_000_000,
+};
+
+/** Splits a list of people, e.g. "Chugong, DUBU; Jang Sung-Rak" */
+function splitNames(text: string): string[] {
+  return unique(text.split(/\s*(?:[,;/|•]|\s&\s)\s*/));
+}
+
+/**
+ * Splits alternative titles. Commas are left alone since titles contain them,
+ * e.g. "Sha-keu • 샤크; Shark: The Beginning".
+ */
+function splitTitles(text: string, primaryTitle = ""): string[] {
+  return unique(text.split(/\s*(?:[;|•\n]|\s\/\s)\s*/)).filter(
+    (title) => title.toLowerCase() != primaryTitle.trim().toLowerCase(),
+  );
+}
+
+/** Finds the publication type among labels or genres */
+function publicationType(values: string[]): string | undefined {
+  for (const value of values) {
+    const match = value.trim().match(/^(manga|manhwa|manhua|webtoon)$/i);
+    if (match) {
+      return match[1].charAt(0).toUpperCase() + match[1].slice(1).toLowerCase();
+    }
+  }
+  return undefined;
+}
+
+function releaseYear(text: string): number | undefined {
+  const match = text.match(/\b(19\d{2}|20\d{2})\b/);
+  return match ? Number(match[1]) : undefined;
+}
+
+/** Parses counts like "15,234", "34.5K" or "1.2M" */
+function parseCount(text: string): number | undefined {
+  const match = text
+    .replace(/,/g, "")
+    .trim()
+    .match(/^(\d+(?:\.\d+)?)\s*([kmb])?\b/i);
+  if (!match) return undefined;
+
+  const multiplier = match[2] ? countSuffixes[match[2].toLowerCase()] : 1;
+  return Math.round(Number(match[1]) * multiplier);
+}
+
+/** Formats counts the way sites show them, e.g. 1200000 → "1.2M" */
+function formatCount(count: number): string {
+  for (const [suffix, size] of Object.entries(countSuffixes).reverse()) {
+    if (count >= size) {
+      return `${Number((count / size).toFixed(1))}${suffix.toUpperCase()}`;
+    }
+  }
+  return count.toString();
+}
+
+/**
+ * Converts a site rating to Paperback's 0 to 1 scale. Returns undefined for
+ * missing or unparsable ratings instead of inventing one.
+ */
+function normaliseRating(text: string, scale: number): number | undefined {
+  const value = parseFloat(text);
+  if (isNaN(value) || scale <= 0) return undefined;
+
+  const rating = Math.min(Math.max(value / scale, 0), 1);
+  return Math.round(rating * 100) / 100;
+}
+
+/** Builds a tag group, or nothing when there are no values */
+function tagSection(
+  id: string,
+  title: string,
+  values: string[],
+): TagSection | undefined {
+  const tags = unique(values).map((value) => ({
+    id: `${id}:${slugify(value)}`,
+    title: value,
+  }));
+  return tags.length > 0 ? { id, title, tags } : undefined;
+}
+
+function slugify(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, "-")
+    .replace(/^-+|-+$/g, "");
+}
+
+function unique(values: string[]): string[] {
+  const seen = new Set<string>();
+  return values
+    .map((x) => x.trim())
+    .filter((x) => {
+      if (!x || seen.has(x.toLowerCase())) return false;
+      seen.add(x.toLowerCase());
+      return true;
+    });
+}
+
+export {
+  formatCount,
+  normaliseRating,
+  parseCount,
+  publicationType,
+  releaseYear,
+  splitNames,
+  splitTitles,
+  tagSection,
+};
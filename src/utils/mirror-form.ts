@@ -0,0 +1,97 @@
+import {
+  ButtonRow,
+  Form,
+  InputRow,
+  LabelRow,
+  Section,
+  SelectRow,
+  ToggleRow,
+} from "@paperback/types";
+import { MirrorList } from "./mirrors";
+
+/** Settings page for the site address a source uses */
+class MirrorForm extends Form {
+  // Typed into the address row, added with the button below it
+  private address = "";
+  private checkResult?: string;
+
+  constructor(private readonly mirrors: MirrorList) {
+    super();
+  }
+
+  override getSections(this: MirrorForm): Application.FormSectionElement[] {
+    return [
+      Section("active_mirror", [
+        SelectRow("base_url", {
+          title: "Site Address",
+          value: [this.mirrors.active],
+          minItemCount: 1,
+          maxItemCount: 1,
+          options: this.mirrors.all.map((x) => ({ id: x, title: x })),
+          onValueChange: Application.Selector(this, "handleBaseUrlChange"),
+        }),
+        ToggleRow("auto_switch_mirror", {
+          title: "Switch Mirrors Automatically",
+          value: this.mirrors.autoSwitch.get(),
+          onValueChange: Application.Selector(this, "handleAutoSwitchChange"),
+        }),
+        ButtonRow("find_working_mirror", {
+          title: "Find a Working Mirror",
+          onSelect: Application.Selector(this, "handleFindWorking"),
+        }),
+        LabelRow("mirror_check_result", {
+          title: "Last Check",
+          value: this.checkResult,
+          isHidden: this.checkResult === undefined,
+        }),
+      ]),
+      Section("add_mirror", [
+        InputRow("mirror_address", {
+          title: "New Address",
+          value: this.address,
+          onValueChange: Application.Selector(this, "handleAddressChange"),
+        }),
+        ButtonRow("use_mirror", {
+          title: "Use This Address",
+          onSelect: Application.Selector(this, "handleUseMirror"),
+        }),
+        ButtonRow("reset_mirrors", {
+          title: "Forget Added Addresses",
+          onSelect: Application.Selector(this, "handleResetMirrors"),
+        }),
+      ]),
+    ];
+  }
+
+  async handleBaseUrlChange(value: string[]): Promise<void> {
+    if (value[0]) this.mirrors.use(value[0]);
+  }
+
+  async handleAutoSwitchChange(value: boolean): Promise<void> {
+    this.mirrors.autoSwitch.set(value);
+  }
+
+  async handleFindWorking(): Promise<void> {
+    const working = await this.mirrors.findWorking();
+    this.checkResult = working ?? "No mirror answered";
+    this.reloadForm();
+  }
+
+  async handleAddressChange(value: string): Promise<void> {
+    this.address = value;
+  }
+
+  // An invalid address throws, which the app shows as the error
+  async handleUseMirror(): Promise<void> {
+    this.mirrors.use(this.address);
+    this.address = "";
+    this.reloadForm();
+  }
+
+  async handleResetMirrors(): Promise<void> {
+    this.mirrors.reset();
+    this.reloadForm();
+  }
+}
+
+export { MirrorForm };
@@ -0,0 +1,187 @@
+import { CloudflareError, Request } from "@paperback/types";
+import { RedirectBlockedError } from "./host-rules";
+import { urlParts } from "./http";
+import { Preference } from "./preferences";
+import {
+  RedirectFailedError,
+  SiteMovedError,
+  TooManyRedirectsError,
+} from "./redirects";
+
+interface MirrorListOptions {
+  /** Origins the site is known to answer on, the first being the default */
+  known: string[];
+  /** Page the health check requests on each mirror, default "/" */
+  healthPath?: string;
+  /** Called when the active mirror or the list of mirrors changes */
+  onChange?: () => void;
+}
+
+/** Thrown when an address entered in settings is not a usable site URL */
+class InvalidMirrorError extends Error {
+  override readonly name = "InvalidMirrorError";
+
+  constructor(readonly input: string) {
+    super(`"${input}" is not a site address, e.g. https://example.com.`);
+  }
+}
+
+/**
+ * The domains a source can reach its site on. Requests are built on the
+ * active one, and manga and chapter IDs are paths on the site, so stored IDs
+ * resolve the same on whichever mirror is in use.
+ */
+class MirrorList {
+  readonly activePreference = new Preference<string>("base_url", "");
+  /**
+   * Mirrors the user added in settings. A domain the site moves to is not
+   * added by itself, as any host a redirect names would be tried otherwise.
+   */
+  readonly addedPreference = new Preference<string[]>("added_mirrors", []);
+  readonly autoSwitch = new Preference<boolean>("auto_switch_mirror", true);
+
+  constructor(private readonly options: MirrorListOptions) {}
+
+  /** Origin requests go to, e.g. "https://kaynscan.com" */
+  get active(): string {
+    const chosen = this.activePreference.get();
+    return this.all.includes(chosen) ? chosen : this.options.known[0];
+  }
+
+  get all(): string[] {
+    return [...new Set([...this.options.known, ...this.addedPreference.get()])];
+  }
+
+  get hosts(): string[] {
+    return this.all.flatMap((x) => urlParts(x)?.host ?? []);
+  }
+
+  /** Adds a mirror the user entered if it is new; returns its origin */
+  add(address: string): string {
+    const origin = mirrorOrigin(address);
+    if (!this.all.includes(origin)) {
+      this.addedPreference.set([...this.addedPreference.get(), origin]);
+      this.options.onChange?.();
+    }
+    return origin;
+  }
+
+  /** Adds a mirror if it is new and sends requests to it from now on */
+  use(address: string): string {
+    const origin = this.add(address);
+    if (origin != this.active) {
+      this.activePreference.set(origin);
+      this.options.onChange?.();
+    }
+    return origin;
+  }
+
+  /** Goes back to the known mirrors, with the default one active */
+  reset(): void {
+    this.activePreference.reset();
+    this.addedPreference.reset();
+    this.options.onChange?.();
+  }
+
+  isMirrorUrl(url: string): boolean {
+    const host = urlParts(url)?.host;
+    return host !== undefined && this.hosts.includes(host);
+  }
+
+  /** The same page on the active mirror, for a URL on any mirror */
+  rebase(url: string): string {
+    const parts = urlParts(url);
+    if (!parts || !this.isMirrorUrl(url)) return url;
+    return `${this.active}${url.slice(parts.origin.length)}`;
+  }
+
+  /**
+   * A mirror works if its health page loads from the mirror itself rather
+   * than through a redirect elsewhere. One showing a bot challenge counts as
+   * working, as the bypass gets past it.
+   */
+  async isHealthy(origin: string): Promise<boolean> {
+    const url = `${origin}${this.options.healthPath ?? "/"}`;
+    try {
+      const [response] = await Application.scheduleRequest({
+        url,
+        method: "GET",
+      });
+      const answeredBy = urlParts(response.url || url)?.origin.toLowerCase();
+      return response.status < 300 && answeredBy == origin;
+    } catch (error) {
+      return error instanceof CloudflareError;
+    }
+  }
+
+  /**
+   * Checks the active mirror, then the others in order, and makes the first
+   * that works active. Returns it, or undefined when none works.
+   */
+  async findWorking(): Promise<string | undefined> {
+    const active = this.active;
+    for (const origin of [active, ...this.all.filter((x) => x != active)]) {
+      if (await this.isHealthy(origin)) return this.use(origin);
+    }
+    return undefined;
+  }
+
+  /**
+   * Runs a request for a site page. If the mirror cannot be reached or
+   * redirects somewhere unusable and automatic switching is on, a working
+   * mirror is looked for and the request is run once more there.
+   */
+  async withFallback<T>(
+    request: Request,
+    run: (request: Request) => Promise<T>,
+  ): Promise<T> {
+    try {
+      return await run(request);
+    } catch (error) {
+      if (
+        !isMirrorFailure(error) ||
+        !this.autoSwitch.get() ||
+        !this.isMirrorUrl(request.url)
+      ) {
+        throw error;
+      }
+
+      const failed = urlParts(request.url)?.origin.toLowerCase();
+      const working = await this.findWorking();
+      if (!working || working == failed) throw error;
+
+      return run({ ...request, url: this.rebase(request.url) });
+    }
+  }
+}
+
+// Connection failures come from the app as plain errors. The errors this
+// extension raises on purpose, such as SiteBusyError once the rate limiter
+// gives up on a throttled host, have names of their own and say nothing
+// about whether another mirror would do better.
+function isMirrorFailure(error: unknown): boolean {
+  if (error instanceof CloudflareError) return false;
+  return (
+    error instanceof SiteMovedError ||
+    error instanceof RedirectBlockedError ||
+    error instanceof RedirectFailedError ||
+    error instanceof TooManyRedirectsError ||
+    (error instanceof Error && ["Error", "TypeError"].includes(error.name))
+  );
+}
+
+/** "Example.org/path" -> "https://example.org" */
+function mirrorOrigin(address: string): string {
+  const trimmed = address.trim();
+  const url = /^[a-z][a-z0-9+.-]*:/i.test(trimmed)
+    ? trimmed
+    : `https://${trimmed}`;
+  const parts = urlParts(url);
+  if (!parts || !parts.host.includes(".")) {
+    throw new InvalidMirrorError(address);
+  }
+  return parts.origin.toLowerCase();
+}
+
+export { InvalidMirrorError, mirrorOrigin, MirrorList };
+export type { MirrorListOptions };
@@ -0,0 +1,32 @@
+/**
+ * A user preference stored in `Application` state. Stored values of the wrong
+ * shape, e.g. from an older version of the extension, read as the default.
+ */
+class Preference<T extends string | number | boolean | string[]> {
+  constructor(
+    readonly key: string,
+    readonly defaultValue: T,
+  ) {}
+
+  get(): T {
+    const value = Application.getState(this.key);
+    return this.isValid(value) ? value : this.defaultValue;
+  }
+
+  set(value: T): void {
+    Application.setState(value, this.key);
+  }
+
+  reset(): void {
+    Application.setState(undefined, this.key);
+  }
+
+  private isValid(value: unknown): value is T {
+    if (Array.isArray(this.defaultValue)) {
+      return Array.isArray(value) && value.every((x) => typeof x === "string");
+    }
+    return typeof value === typeof this.defaultValue;
+  }
+}
+
+export { Preference };
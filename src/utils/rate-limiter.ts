@@ -0,0 +1,198 @@
+import { PaperbackInterceptor, Request, Response } from "@paperback/types";
+import { responseHeader, urlParts } from "./http";
+
+interface AdaptiveRateLimiterOptions {
+  /** Page requests allowed per host in each buffer interval */
+  numberOfRequests: number;
+  /** Image requests allowed per host in each buffer interval */
+  numberOfImageRequests: number;
+  /** Length of the budget window, in seconds */
+  bufferInterval: number;
+  /** Extra attempts for GET requests that were throttled, default 3 */
+  maxRetries?: number;
+}
+
+// Pacing state for one host and kind of request
+interface Budget {
+  nextSlot: number;
+  pausedUntil: number;
+  /** Share of the configured rate in use, halved by repeated throttling */
+  scale: number;
+  /** Throttled responses in a row */
+  throttles: number;
+  /** Successful responses since the rate was last changed */
+  successes: number;
+}
+
+const imagePattern = /\.(png|gif|jpe?g|webp|avif)(\?|$)/i;
+
+// Statuses a site uses when it is overloaded or wants us to slow down
+const throttledStatuses = [429, 502, 503, 504];
+
+// Seconds of the first backoff and the longest one
+const baseBackoff = 1;
+const maxBackoff = 60;
+
+// A Retry-After longer than this is not waited out; the reader is told to
+// come back later instead
+const maxRetryWait = 120;
+
+// The rate never drops below this share of the configured one, and recovers
+// one step after this many requests go through without throttling
+const minScale = 1 / 8;
+const recoveryRequests = 20;
+
+/** Thrown when a site keeps throttling or failing a request after retries */
+class SiteBusyError extends Error {
+  override readonly name = "SiteBusyError";
+
+  constructor(
+    readonly host: string,
+    readonly status: number,
+  ) {
+    super(
+      status == 429
+        ? `${host} is limiting requests right now. Try again in a few minutes.`
+        : `${host} is not responding (HTTP ${status}). Try again in a few minutes.`,
+    );
+  }
+}
+
+/**
+ * Paces requests per host, with page HTML and images on separate budgets so
+ * that reading a chapter does not hold up browsing. Throttled responses pause
+ * the host for its Retry-After, or an exponential backoff with jitter, and
+ * the host's rate is halved when it keeps throttling.
+ */
+class AdaptiveRateLimiter extends PaperbackInterceptor {
+  random: () => number = Math.random;
+  private budgets = new Map<string, Budget>();
+
+  constructor(
+    id: string,
+    readonly options: AdaptiveRateLimiterOptions,
+  ) {
+    super(id);
+  }
+
+  /**
+   * Schedules a request, retrying GET and HEAD requests the site throttled.
+   * The wait before each retry happens in {@link interceptRequest}.
+   */
+  async schedule(request: Request): Promise<[Response, ArrayBuffer]> {
+    const idempotent = ["GET", "HEAD"].includes(request.method.toUpperCase());
+    const retries = idempotent ? (this.options.maxRetries ?? 3) : 0;
+
+    for (let attempt = 0; ; attempt++) {
+      const [response, data] = await Application.scheduleRequest({
+        ...request,
+      });
+      if (!throttledStatuses.includes(response.status)) {
+        return [response, data];
+      }
+
+      const wait = retryAfter(response);
+      if (attempt >= retries || (wait !== undefined && wait > maxRetryWait)) {
+        throw new SiteBusyError(
+          urlParts(request.url)?.host ?? request.url,
+          response.status,
+        );
+      }
+    }
+  }
+
+  override async interceptRequest(request: Request): Promise<Request> {
+    const budget = this.budget(request.url);
+    const interval =
+      (this.options.bufferInterval * 1000) /
+      (this.configuredRate(request.url) * budget.scale);
+
+    // The slot is taken before sleeping, so requests made meanwhile queue
+    // up behind this one
+    const now = Date.now();
+    const start = Math.max(now, budget.nextSlot, budget.pausedUntil);
+    budget.nextSlot = start + interval;
+
+    if (start > now) await Application.sleep((start - now) / 1000);
+    return request;
+  }
+
+  override async interceptResponse(
+    request: Request,
+    response: Response,
+    data: ArrayBuffer,
+  ): Promise<ArrayBuffer> {
+    const budget = this.budget(request.url);
+
+    if (throttledStatuses.includes(response.status)) {
+      budget.throttles += 1;
+      budget.successes = 0;
+      const wait = retryAfter(response) ?? this.backoff(budget.throttles);
+      budget.pausedUntil = Math.max(
+        budget.pausedUntil,
+        Date.now() + wait * 1000,
+      );
+      if (budget.throttles > 1) {
+        budget.scale = Math.max(minScale, budget.scale / 2);
+      }
+    } else if (response.status < 400) {
+      budget.throttles = 0;
+      budget.successes += 1;
+      if (budget.scale < 1 && budget.successes >= recoveryRequests) {
+        budget.scale = Math.min(1, budget.scale * 2);
+        budget.successes = 0;
+      }
+    }
+
+    return data;
+  }
+
+  /** Requests per buffer interval the host is currently allowed */
+  currentRate(url: string): number {
+    return this.configuredRate(url) * this.budget(url).scale;
+  }
+
+  private configuredRate(url: string): number {
+    return imagePattern.test(url)
+      ? this.options.numberOfImageRequests
+      : this.options.numberOfRequests;
+  }
+
+  private budget(url: string): Budget {
+    const host = urlParts(url)?.host ?? "";
+    const key = `${imagePattern.test(url) ? "image" : "page"} ${host}`;
+
+    let budget = this.budgets.get(key);
+    if (!budget) {
+      budget = {
+        nextSlot: 0,
+        pausedUntil: 0,
+        scale: 1,
+        throttles: 0,
+        successes: 0,
+      };
+      this.budgets.set(key, budget);
+    }
+    return budget;
+  }
+
+  // Seconds to wait after the given number of throttled responses in a row,
+  // somewhere between half and all of the doubled delay
+  private backoff(throttles: number): number {
+    const delay = Math.min(maxBackoff, baseBackoff * 2 ** (throttles - 1));
+    return delay / 2 + (this.random() * delay) / 2;
+  }
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function retryAfter(response: Response): number | undefined {
+  const value = responseHeader(response, "retry-after")?.trim();
+  if (!value) return undefined;
+  if (/^\d+$/.test(value)) return Number(value);
+
+  const date = Date.parse(value);
+  return isNaN(date) ? undefined : Math.max(0, (date - Date.now()) / 1000);
+}
+
+export { AdaptiveRateLimiter, SiteBusyError };
+export type { AdaptiveRateLimiterOptions };
@@ -0,0 +1,116 @@
+import { Response } from "@paperback/types";
+import { responseHeader, urlParts } from "./http";
+
+/** A site answering with a permanent redirect to another domain */
+interface DomainMove {
+  /** Origin that redirected, e.g. "https://kaynscan.com" */
+  from: string;
+  /** Origin it now sends readers to */
+  to: string;
+}
+
+interface RedirectPolicyOptions {
+  /** Redirects followed for one request before giving up, default 5 */
+  maxRedirects?: number;
+  /** Told about every permanent redirect to another domain */
+  onDomainMove?: (move: DomainMove) => void;
+}
+
+/** Thrown when a redirect chain loops or runs longer than allowed */
+class TooManyRedirectsError extends Error {
+  override readonly name = "TooManyRedirectsError";
+
+  constructor(
+    readonly url: string,
+    readonly hops: number,
+  ) {
+    super(`Gave up on ${url} after ${hops} redirects.`);
+  }
+}
+
+/** Thrown when a site moved to a domain the source does not follow yet */
+class SiteMovedError extends Error {
+  override readonly name = "SiteMovedError";
+
+  constructor(readonly move: DomainMove) {
+    super(`${move.from} has moved to ${move.to}.`);
+  }
+}
+
+/** Thrown when the end of a redirect chain is an error page */
+class RedirectFailedError extends Error {
+  override readonly name = "RedirectFailedError";
+
+  constructor(
+    readonly url: string,
+    readonly status: number,
+  ) {
+    super(`Redirected to ${url}, which answered HTTP ${status}.`);
+  }
+}
+
+// 304 Not Modified is not a redirect, and a 3xx without a target is not one
+// that can be followed
+function redirectTarget(response: Response): string | undefined {
+  if (response.status < 300 || response.status >= 400) return undefined;
+  if (response.status == 304) return undefined;
+  return responseHeader(response, "location")?.trim() || undefined;
+}
+
+function isPermanentRedirect(status: number): boolean {
+  return status == 301 || status == 308;
+}
+
+/** 307 and 308 repeat the request as is; the others turn it into a GET */
+function keepsMethod(status: number): boolean {
+  return status == 307 || status == 308;
+}
+
+/** Resolves a Location header against the URL that sent it */
+function resolveLocation(base: string, location: string): string {
+  if (/^[a-z][a-z0-9+.-]*:/i.test(location)) return location;
+
+  const parts = urlParts(base);
+  if (!parts) return location;
+
+  const scheme = parts.origin.slice(0, parts.origin.indexOf(":"));
+  if (location.startsWith("//")) return `${scheme}:${location}`;
+  if (location.startsWith("/")) return `${parts.origin}${location}`;
+
+  if (location.startsWith("?")) {
+    return `${parts.origin}${parts.path}${location}`;
+  }
+  if (location.startsWith("#")) {
+    const query = base.match(/^[^?#]*(\?[^#]*)?/)?.[1] ?? "";
+    return `${parts.origin}${parts.path}${query}${location}`;
+  }
+
+  // A relative path replaces the last segment, with dot segments resolved
+  const segments = parts.path.split("/").slice(0, -1);
+  for (const segment of location.split(/(?=[?#])/)[0].split("/")) {
+    if (segment == "..") {
+      if (segments.length > 1) segments.pop();
+    } else if (segment != ".") {
+      segments.push(segment);
+    }
+  }
+  const suffix = location.match(/[?#].*$/)?.[0] ?? "";
+  return `${parts.origin}${segments.join("/")}${suffix}`;
+}
+
+/** Hosts count as one site when equal or when one is a subdomain of the other */
+function sameSite(a: string, b: string): boolean {
+  return a == b || a.endsWith(`.${b}`) || b.endsWith(`.${a}`);
+}
+
+export {
+  isPermanentRedirect,
+  keepsMethod,
+  RedirectFailedError,
+  redirectTarget,
+  resolveLocation,
+  sameSite,
+  SiteMovedError,
+  TooManyRedirectsError,
+};
+export type { DomainMove, RedirectPolicyOptions };
@@ -0,0 +1,131 @@
+import { Request } from "@paperback/types";
+import { normaliseUrl } from "./http";
+
+const cacheStateKey = "response_cache";
+
+// Oldest responses are dropped past this many
+const maxEntries = 50;
+
+interface CacheRoute {
+  /** Matched against the normalised URL */
+  pattern: RegExp;
+  /** Seconds a response stays fresh */
+  ttl: number;
+  /**
+   * Keep the response in state so it outlives a restart. Meant for small,
+   * slow-changing pages such as the ones genre lists come from.
+   */
+  persist?: boolean;
+}
+
+interface CacheEntry {
+  body: string;
+  /** Epoch milliseconds the entry goes stale at */
+  expires: number;
+  persist: boolean;
+}
+
+/**
+ * Page bodies kept for a while so that pages several calls need, such as a
+ * series page read for both details and chapters, are fetched once. Only GET
+ * requests to a listed route are cached, each for its route's TTL. Past
+ * the limit the oldest entries are dropped.
+ */
+class ResponseCache {
+  private entries: Map<string, CacheEntry>;
+
+  constructor(private readonly routes: CacheRoute[]) {
+    this.entries = new Map(
+      Object.entries(readPersisted()).filter(([, x]) => !isStale(x)),
+    );
+  }
+
+  get(request: Request): string | undefined {
+    if (!isCacheable(request)) return undefined;
+
+    const key = normaliseUrl(request.url);
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    if (isStale(entry)) {
+      this.delete([key]);
+      return undefined;
+    }
+    return entry.body;
+  }
+
+  set(request: Request, body: string): void {
+    if (!isCacheable(request)) return;
+
+    const key = normaliseUrl(request.url);
+    const route = this.routes.find((x) => x.pattern.test(key));
+    if (!route) return;
+
+    const persist = route.persist ?? false;
+    // Set again rather than updated, so the newest entries come last
+    this.entries.delete(key);
+    this.entries.set(key, {
+      body,
+      expires: Date.now() + route.ttl * 1000,
+      persist,
+    });
+    this.prune();
+    if (persist) this.save();
+  }
+
+  /** Drops cached responses for a URL, or for every URL matching a pattern */
+  invalidate(url: string | RegExp): void {
+    const matches =
+      typeof url === "string"
+        ? (key: string) => key == normaliseUrl(url)
+        : (key: string) => url.test(key);
+    this.delete([...this.entries.keys()].filter(matches));
+  }
+
+  clear(): void {
+    this.delete([...this.entries.keys()]);
+  }
+
+  // Entries are otherwise only dropped when read after going stale, so
+  // browsing many titles would keep every page body in memory
+  private prune(): void {
+    const entries = [...this.entries];
+    const fresh = entries.filter(([, x]) => !isStale(x));
+    const dropped = [
+      ...entries.filter(([, x]) => isStale(x)),
+      ...fresh.slice(0, Math.max(0, fresh.length - maxEntries)),
+    ];
+    this.delete(dropped.map(([key]) => key));
+  }
+
+  private delete(keys: string[]): void {
+    const persisted = keys.some((x) => this.entries.get(x)?.persist);
+    for (const key of keys) this.entries.delete(key);
+    if (persisted) this.save();
+  }
+
+  private save(): void {
+    const persisted = Object.fromEntries(
+      [...this.entries].filter(([, x]) => x.persist && !isStale(x)),
+    );
+    Application.setState(persisted, cacheStateKey);
+  }
+}
+
+function isCacheable(request: Request): boolean {
+  return request.method.toUpperCase() == "GET" && !request.body;
+}
+
+function isStale(entry: CacheEntry): boolean {
+  return entry.expires <= Date.now();
+}
+
+function readPersisted(): Record<string, CacheEntry> {
+  const stored = Application.getState(cacheStateKey);
+  return stored && typeof stored === "object"
+    ? (stored as Record<string, CacheEntry>)
+    : {};
+}
+
+export { ResponseCache };
+export type { CacheRoute };
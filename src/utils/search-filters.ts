@@ -0,0 +1,177 @@
+import { SearchFilter, SearchQuery } from "@paperback/types";
+import { URLBuilder } from "./url-builder/base";
+
+type FilterOption = { id: string; value: string };
+type FilterOptions = FilterOption[] | (() => Promise<FilterOption[]>);
+
+interface DropdownFilterDefinition {
+  type: "dropdown";
+  id: string;
+  title: string;
+  options: FilterOptions;
+  /** Selected option id, or a function reading it from user preferences */
+  default: string | (() => string);
+  /** Query parameter receiving the selected option id */
+  param: string;
+  /** Option ids that leave the parameter out, e.g. an "all" choice */
+  omit?: string[];
+}
+
+interface MultiselectFilterDefinition {
+  type: "multiselect";
+  id: string;
+  title: string;
+  options: FilterOptions;
+  /** Query parameter repeated once per included option */
+  includeParam: string;
+  /**
+   * Query parameter repeated once per excluded option. A filter can allow
+   * exclusion without one, in which case the source applies it itself.
+   */
+  excludeParam?: string;
+  allowExclusion: boolean;
+  maximum?: number;
+}
+
+type FilterDefinition = DropdownFilterDefinition | MultiselectFilterDefinition;
+
+interface MultiselectSelection {
+  included: string[];
+  excluded: string[];
+}
+
+/**
+ * Declares a source's search filters once and derives both the filters shown
+ * in the app and the query parameters they add to a search URL.
+ */
+class SearchFilterMapping {
+  constructor(private readonly definitions: FilterDefinition[]) {}
+
+  async getSearchFilters(): Promise<SearchFilter[]> {
+    const filters: SearchFilter[] = [];
+
+    for (const definition of this.definitions) {
+      const options =
+        typeof definition.options === "function"
+          ? await definition.options()
+          : definition.options;
+
+      switch (definition.type) {
+        case "dropdown":
+          filters.push({
+            id: definition.id,
+            type: "dropdown",
+            options: options,
+            value: defaultValue(definition),
+            title: definition.title,
+          });
+          break;
+        case "multiselect":
+          filters.push({
+            id: definition.id,
+            type: "multiselect",
+            options: options,
+            allowExclusion: definition.allowExclusion,
+            value: {},
+            title: definition.title,
+            allowEmptySelection: false,
+            maximum: definition.maximum,
+          });
+          break;
+      }
+    }
+
+    return filters;
+  }
+
+  /**
+   * Adds the query parameters for every declared filter, falling back to the
+   * declared default for filters missing from the query.
+   */
+  apply(query: SearchQuery, url: URLBuilder): URLBuilder {
+    for (const definition of this.definitions) {
+      switch (definition.type) {
+        case "dropdown": {
+          const value = this.dropdownValue(query, definition.id);
+          if (!definition.omit?.includes(value)) {
+            url.addQuery(definition.param, value);
+          }
+          break;
+        }
+        case "multiselect": {
+          const { included, excluded } = this.multiselectValue(
+            query,
+            definition.id,
+          );
+          for (const id of included) {
+            url.addQuery(definition.includeParam, id);
+          }
+          if (definition.excludeParam) {
+            for (const id of excluded) {
+              url.addQuery(definition.excludeParam, id);
+            }
+          }
+          break;
+        }
+      }
+    }
+
+    return url;
+  }
+
+  dropdownValue(query: SearchQuery, id: string): string {
+    const definition = this.definition(id, "dropdown");
+    const value = query.filters.find((filter) => filter.id == id)?.value;
+    return typeof value === "string" && value
+      ? value
+      : defaultValue(definition);
+  }
+
+  /** Selected option ids, sorted so the URLs they produce are stable */
+  multiselectValue(query: SearchQuery, id: string): MultiselectSelection {
+    this.definition(id, "multiselect");
+    const value = query.filters.find((filter) => filter.id == id)?.value;
+    const selection: MultiselectSelection = { included: [], excluded: [] };
+
+    if (value && typeof value === "object") {
+      for (const option of Object.keys(value).sort()) {
+        switch ((value as Record<string, string>)[option]) {
+          case "included":
+            selection.included.push(option);
+            break;
+          case "excluded":
+            selection.excluded.push(option);
+            break;
+        }
+      }
+    }
+
+    return selection;
+  }
+
+  private definition<T extends FilterDefinition["type"]>(
+    id: string,
+    type: T,
+  ): Extract<FilterDefinition, { type: T }> {
+    const definition = this.definitions.find((x) => x.id == id);
+    if (!definition || definition.type != type) {
+      throw new Error(`No ${type} search filter declared with id "${id}"`);
+    }
+    return definition as Extract<FilterDefinition, { type: T }>;
+  }
+}
+
+function defaultValue(definition: DropdownFilterDefinition): string {
+  return typeof definition.default === "function"
+    ? definition.default()
+    : definition.default;
+}
+
+export { SearchFilterMapping };
+export type {
+  DropdownFilterDefinition,
+  FilterDefinition,
+  FilterOption,
+  MultiselectFilterDefinition,
+  MultiselectSelection,
+};
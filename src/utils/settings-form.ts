@@ -0,0 +1,270 @@
+import {
+  ButtonRow,
+  DiscoverSection,
+  Form,
+  InputRow,
+  LabelRow,
+  NavigationRow,
+  Section,
+  SelectRow,
+} from "@paperback/types";
+import { AccountSession } from "./account-session";
+import { CookieJarForm } from "./cookie-jar-form";
+import { GenreBlocklist } from "./genre-blocklist";
+import { MirrorForm } from "./mirror-form";
+import { Preference } from "./preferences";
+import { FilterOption } from "./search-filters";
+
+const requestRateOptions = [1, 2, 3, 5, 10];
+
+/** Preferences every source has, under the same state keys in each */
+function sourcePreferences(defaultSort: string) {
+  return {
+    /** Discover section ids the user turned off */
+    hiddenSections: new Preference<string[]>("hidden_discover_sections", []),
+    /** Sort option id preselected in search */
+    defaultSort: new Preference<string>("default_sort", defaultSort),
+    /** Genre ids left out of the genre filter and manga details */
+    hiddenGenres: new Preference<string[]>("hidden_genres", []),
+    requestsPerSecond: new Preference<number>("requests_per_second", 5),
+    /** Origin the site last moved to with a permanent redirect, if any */
+    siteMovedTo: new Preference<string>("site_moved_to", ""),
+  };
+}
+
+type SourcePreferences = ReturnType<typeof sourcePreferences>;
+
+interface SourceSettingsOptions {
+  preferences: SourcePreferences;
+  sections: DiscoverSection[];
+  sortOptions: FilterOption[];
+  genres: FilterOption[];
+  blockedGenres: GenreBlocklist;
+  session: AccountSession;
+  /** Shown under the account once logged in */
+  accountSubtitle?: string;
+  cookies: CookieJarForm;
+  mirrors: MirrorForm;
+  /** Applies a new request rate to the running rate limiter */
+  onRequestRateChange: (requestsPerSecond: number) => void;
+}
+
+/**
+ * The account, discover, search and network settings every source has.
+ * Sources subclass it for rows of their own: discover rows through
+ * getDiscoverRows and whole sections, placed before the network section,
+ * through getSourceSections.
+ */
+class SourceSettingsForm extends Form {
+  // Typed into the login rows, never stored outside the session's secure state
+  private email = "";
+  private password = "";
+
+  constructor(protected readonly options: SourceSettingsOptions) {
+    super();
+  }
+
+  override getSections(): Application.FormSectionElement[] {
+    return [
+      this.getAccountSection(),
+      Section("discover", this.getDiscoverRows()),
+      this.getSearchSection(),
+      ...this.getSourceSections(),
+      this.getNetworkSection(),
+    ];
+  }
+
+  protected getDiscoverRows(
+    this: SourceSettingsForm,
+  ): Application.FormItemElement<unknown>[] {
+    const hiddenSections = this.options.preferences.hiddenSections.get();
+
+    return [
+      SelectRow("discover_sections", {
+        title: "Discover Sections",
+        subtitle: "Sections shown on the discover page",
+        value: this.options.sections
+          .map((x) => x.id)
+          .filter((id) => !hiddenSections.includes(id)),
+        minItemCount: 0,
+        maxItemCount: this.options.sections.length,
+        options: this.options.sections.map((x) => ({
+          id: x.id,
+          title: x.title,
+        })),
+        onValueChange: Application.Selector(this, "handleSectionsChange"),
+      }),
+    ];
+  }
+
+  protected getSourceSections(): Application.FormSectionElement[] {
+    return [];
+  }
+
+  /** Options for a row that picks genres */
+  protected genreOptions(): { id: string; title: string }[] {
+    return this.options.genres.map((x) => ({ id: x.id, title: x.value }));
+  }
+
+  private getSearchSection(
+    this: SourceSettingsForm,
+  ): Application.FormSectionElement {
+    const preferences = this.options.preferences;
+
+    return Section("search", [
+      SelectRow("default_sort", {
+        title: "Default Sort",
+        value: [preferences.defaultSort.get()],
+        minItemCount: 1,
+        maxItemCount: 1,
+        options: this.options.sortOptions.map((x) => ({
+          id: x.id,
+          title: x.value,
+        })),
+        onValueChange: Application.Selector(this, "handleSortChange"),
+      }),
+      SelectRow("hidden_genres", {
+        title: "Hidden Genres",
+        subtitle: "Left out of the genre filter and manga details",
+        value: preferences.hiddenGenres.get(),
+        minItemCount: 0,
+        maxItemCount: this.options.genres.length,
+        options: this.genreOptions(),
+        onValueChange: Application.Selector(this, "handleHiddenGenresChange"),
+      }),
+      SelectRow("blocked_genres", {
+        title: "Blocked Genres",
+        subtitle: "Titles with these genres are left out of every listing",
+        value: this.options.blockedGenres.get(),
+        minItemCount: 0,
+        maxItemCount: this.options.genres.length,
+        options: this.genreOptions(),
+        onValueChange: Application.Selector(this, "handleBlockedGenresChange"),
+      }),
+    ]);
+  }
+
+  private getNetworkSection(
+    this: SourceSettingsForm,
+  ): Application.FormSectionElement {
+    const preferences = this.options.preferences;
+
+    return Section("network", [
+      SelectRow("requests_per_second", {
+        title: "Requests Per Second",
+        subtitle: "Lower this if the site starts rejecting requests",
+        value: [preferences.requestsPerSecond.get().toString()],
+        minItemCount: 1,
+        maxItemCount: 1,
+        options: requestRateOptions.map((x) => ({
+          id: x.toString(),
+          title: x.toString(),
+        })),
+        onValueChange: Application.Selector(this, "handleRequestRateChange"),
+      }),
+      NavigationRow("mirrors", {
+        title: "Site Address",
+        subtitle: "Mirror domains and which one is used",
+        form: this.options.mirrors,
+      }),
+      LabelRow("site_moved", {
+        title: "Site Moved To",
+        subtitle: "Add it under Site Address once you trust it",
+        value: preferences.siteMovedTo.get(),
+        isHidden: !preferences.siteMovedTo.get(),
+      }),
+      NavigationRow("cookies", {
+        title: "Cookies",
+        subtitle: "Stored cookies and the Cloudflare bypass",
+        form: this.options.cookies,
+      }),
+    ]);
+  }
+
+  private getAccountSection(
+    this: SourceSettingsForm,
+  ): Application.FormSectionElement {
+    const session = this.options.session;
+
+    if (session.isLoggedIn()) {
+      return Section("account", [
+        LabelRow("account_status", {
+          title: "Logged In",
+          subtitle: this.options.accountSubtitle,
+          value: session.email,
+        }),
+        ButtonRow("logout", {
+          title: "Log Out",
+          onSelect: Application.Selector(this, "handleLogout"),
+        }),
+      ]);
+    }
+
+    return Section("account", [
+      InputRow("email", {
+        title: "Email",
+        value: this.email,
+        onValueChange: Application.Selector(this, "handleEmailChange"),
+      }),
+      InputRow("password", {
+        title: "Password",
+        value: this.password,
+        onValueChange: Application.Selector(this, "handlePasswordChange"),
+      }),
+      ButtonRow("login", {
+        title: "Log In",
+        onSelect: Application.Selector(this, "handleLogin"),
+      }),
+    ]);
+  }
+
+  async handleEmailChange(value: string): Promise<void> {
+    this.email = value.trim();
+  }
+
+  async handlePasswordChange(value: string): Promise<void> {
+    this.password = value;
+  }
+
+  async handleLogin(): Promise<void> {
+    await this.options.session.login(this.email, this.password);
+    this.password = "";
+    this.reloadForm();
+  }
+
+  async handleLogout(): Promise<void> {
+    await this.options.session.logout();
+    this.reloadForm();
+  }
+
+  async handleSectionsChange(value: string[]): Promise<void> {
+    this.options.preferences.hiddenSections.set(
+      this.options.sections
+        .map((x) => x.id)
+        .filter((id) => !value.includes(id)),
+    );
+  }
+
+  async handleSortChange(value: string[]): Promise<void> {
+    if (value[0]) this.options.preferences.defaultSort.set(value[0]);
+  }
+
+  async handleHiddenGenresChange(value: string[]): Promise<void> {
+    this.options.preferences.hiddenGenres.set(value);
+  }
+
+  async handleBlockedGenresChange(value: string[]): Promise<void> {
+    this.options.blockedGenres.set(value);
+  }
+
+  async handleRequestRateChange(value: string[]): Promise<void> {
+    const requestsPerSecond = Number(value[0]);
+    if (!requestRateOptions.includes(requestsPerSecond)) return;
+
+    this.options.preferences.requestsPerSecond.set(requestsPerSecond);
+    this.options.onRequestRateChange(requestsPerSecond);
+  }
+}
+
+export { SourceSettingsForm, sourcePreferences };
+export type { SourcePreferences, SourceSettingsOptions };
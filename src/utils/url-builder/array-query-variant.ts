@@ -1,8 +1,8 @@
-import { URLBuilder as BaseURLBuilder } from "./base";
+import { URLBuilder as BaseURLBuilder, encodeQueryPair } from "./base";
 
 class URLBuilder extends BaseURLBuilder {
   protected formatArrayQuery(key: string, value: string[]): string[] {
-    return value.length > 0 ? value.map((v) => `${key}=${v}`) : [];
+    return value.length > 0 ? value.map((v) => encodeQueryPair(key, v)) : [];
   }
 }
 
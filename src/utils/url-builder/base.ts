@@ -2,27 +2,63 @@ type QueryValue = string | number | boolean | string[] | object;
 
 class URLBuilder {
   private baseUrl: string;
-  private queryParams: Record<string, QueryValue> = {};
+  private queryParams: [string, QueryValue][] = [];
   private pathSegments: string[] = [];
 
   constructor(baseUrl: string) {
     this.baseUrl = baseUrl.replace(/\/+$/, "");
   }
 
+  /**
+   * Creates a builder from an existing URL, keeping its path segments and
+   * query parameters (in order, including repeated keys).
+   */
+  static fromUrl<T extends URLBuilder>(
+    this: new (baseUrl: string) => T,
+    url: string,
+  ): T {
+    const [withoutHash] = url.split("#");
+    const queryStart = withoutHash.indexOf("?");
+    const location =
+      queryStart >= 0 ? withoutHash.slice(0, queryStart) : withoutHash;
+    const query = queryStart >= 0 ? withoutHash.slice(queryStart + 1) : "";
+
+    const originMatch = location.match(/^([a-z][a-z0-9+.-]*:\/\/[^/]+)(.*)$/i);
+    const builder = new this(originMatch ? originMatch[1] : location);
+
+    for (const segment of (originMatch?.[2] ?? "").split("/")) {
+      if (segment) builder.addPath(segment);
+    }
+
+    for (const pair of query.split("&")) {
+      if (!pair) continue;
+      const separator = pair.indexOf("=");
+      const key = separator >= 0 ? pair.slice(0, separator) : pair;
+      const value = separator >= 0 ? pair.slice(separator + 1) : "";
+      builder.addQuery(decodeQueryComponent(key), decodeQueryComponent(value));
+    }
+
+    return builder;
+  }
+
   protected formatArrayQuery(key: string, value: string[]): string[] {
-    return value.length > 0 ? value.map((v) => `${key}[]=${v}`) : [];
+    return value.length > 0
+      ? value.map((v) => encodeQueryPair(`${key}[]`, v))
+      : [];
   }
 
   protected formatObjectQuery(key: string, value: object): string[] {
     return Object.entries(value)
       .map(([objKey, objValue]) =>
-        objValue !== undefined ? `${key}[${objKey}]=${objValue}` : undefined,
+        objValue !== undefined
+          ? encodeQueryPair(`${key}[${objKey}]`, String(objValue))
+          : undefined,
       )
       .filter((x) => x !== undefined);
   }
 
-  protected formatQuery(queryParams: Record<string, QueryValue>): string {
-    return Object.entries(queryParams)
+  protected formatQuery(queryParams: [string, QueryValue][]): string {
+    return queryParams
       .flatMap(([key, value]) => {
         // Handle string[]
         if (Array.isArray(value)) {
@@ -35,7 +71,7 @@ class URLBuilder {
         }
 
         // Default handling
-        return value === "" ? [] : [`${key}=${value}`];
+        return value === "" ? [] : [encodeQueryPair(key, String(value))];
       })
       .join("&");
   }
@@ -57,16 +93,58 @@ class URLBuilder {
     return this;
   }
 
+  /**
+   * Appends a query parameter. Adding the same key again keeps every value,
+   * e.g. `addQuery("genre[]", "action").addQuery("genre[]", "drama")`.
+   */
   addQuery(key: string, value: QueryValue): this {
-    this.queryParams[key] = value;
+    this.queryParams.push([key, value]);
+    return this;
+  }
+
+  /**
+   * Replaces every value of a query parameter with a single new one, keeping
+   * the position of its first occurrence.
+   */
+  setQuery(key: string, value: QueryValue): this {
+    const index = this.queryParams.findIndex(([k]) => k == key);
+    if (index < 0) return this.addQuery(key, value);
+
+    this.queryParams = this.queryParams.filter(
+      ([k], i) => k != key || i == index,
+    );
+    this.queryParams[index] = [key, value];
     return this;
   }
 
+  removeQuery(key: string): this {
+    this.queryParams = this.queryParams.filter(([k]) => k != key);
+    return this;
+  }
+
+  getQuery(key: string): QueryValue[] {
+    return this.queryParams.filter(([k]) => k == key).map(([, v]) => v);
+  }
+
   reset(): this {
-    this.queryParams = {};
+    this.queryParams = [];
     this.pathSegments = [];
     return this;
   }
 }
 
-export { URLBuilder };
+function encodeQueryPair(key: string, value: string): string {
+  return `${encodeURIComponent(key)}=${encodeURIComponent(value)}`;
+}
+
+function decodeQueryComponent(component: string): string {
+  try {
+    return decodeURIComponent(component.replace(/\+/g, " "));
+  } catch {
+    // Malformed escapes are kept as they were sent
+    return component;
+  }
+}
+
+export { URLBuilder, encodeQueryPair };
+export type { QueryValue };
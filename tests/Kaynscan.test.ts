@@ -0,0 +1,877 @@
+import {
+  CloudflareError,
+  ContentRating,
+  DiscoverSection,
+  SourceManga,
+} from "@paperback/types";
+import { beforeEach, describe, expect, it } from "vitest";
+import { ChapterLockedError } from "../src/Kaynscan/KaynscanErrors";
+import { KaynscanExtension } from "../src/Kaynscan/main";
+import {
+  LoginError,
+  LoginFormError,
+  SessionExpiredError,
+} from "../src/utils/account-session";
+import { SiteBusyError } from "../src/utils/rate-limiter";
+import { SiteMovedError } from "../src/utils/redirects";
+import { installApplication, MockApplication } from "./harness/application";
+import { FixtureServer } from "./harness/fixtures";
+import { changeFormRow, formRow, selectFormRow } from "./harness/forms";
+
+describe("Kaynscan", () => {
+  let app: MockApplication;
+  let source: KaynscanExtension;
+
+  const section = async (id: string): Promise<DiscoverSection> => {
+    const sections = await source.getDiscoverSections();
+    const found = sections.find((x) => x.id == id);
+    if (!found) throw new Error(`Missing discover section ${id}`);
+    return found;
+  };
+
+  const soloLeveling = async (): Promise<SourceManga> =>
+    source.getMangaDetails("640e17f407b");
+
+  beforeEach(async () => {
+    app = installApplication(FixtureServer.forSource("Kaynscan"));
+    source = new KaynscanExtension();
+    source.clock = () => new Date("2025-10-19T12:00:00Z");
+    await source.initialise();
+  });
+
+  it("registers its interceptors", () => {
+    expect(app.registeredInterceptors()).toEqual([
+      "main",
+      "rateLimiter",
+      "cookie_store",
+    ]);
+  });
+
+  it("keeps the account session through a Cloudflare bypass", async () => {
+    const session = {
+      name: "kaynscan_session",
+      value: "abc",
+      domain: "kaynscan.com",
+    };
+    source.cookieJar.setCookie(session);
+
+    await source.saveCloudflareBypassCookies([
+      { name: "cf_clearance", value: "cleared", domain: ".kaynscan.com" },
+    ]);
+
+    expect(source.session.sessionCookie()).toEqual(session);
+    expect(
+      source.cookieJar.cookiesForUrl("https://kaynscan.com/"),
+    ).toHaveLength(2);
+  });
+
+  it("sends image headers to the image CDN", async () => {
+    const image = "http://cdn.meowing.org/uploads/covers/solo-leveling.webp";
+    app.server.on(/^https:\/\/cdn\.meowing\.org\//, { body: "" });
+
+    await Application.scheduleRequest({ url: image, method: "GET" });
+
+    expect(app.requests[0].url).toBe(image.replace("http:", "https:"));
+    expect(app.requests[0].headers).toMatchObject({
+      referer: "https://kaynscan.com/",
+      origin: "https://kaynscan.com",
+      accept: expect.stringContaining("image/webp") as string,
+    });
+  });
+
+  it("parses search results", async () => {
+    const results = await source.getSearchResults(
+      { title: "solo", filters: [] },
+      undefined,
+    );
+
+    expect(results.items).toEqual([
+      {
+        mangaId: "640e17f407b",
+        imageUrl: "https://cdn.meowing.org/uploads/covers/solo-leveling.webp",
+        title: "Solo Leveling",
+      },
+    ]);
+    expect(results.metadata).toBeUndefined();
+  });
+
+  describe("search filters", () => {
+    it("loads genres from the series page", async () => {
+      const filters = await source.getSearchFilters();
+
+      expect(filters.map((x) => x.id)).toEqual([
+        "genres",
+        "status",
+        "type",
+        "order",
+      ]);
+      expect(filters[0].type == "multiselect" && filters[0].options).toEqual([
+        { id: "Action", value: "Action" },
+        { id: "Adventure", value: "Adventure" },
+        { id: "Fantasy", value: "Fantasy" },
+        { id: "Martial Arts", value: "Martial Arts" },
+      ]);
+    });
+
+    it("falls back to a static genre list", async () => {
+      app.server.on("https://kaynscan.com/series", { status: 500 });
+
+      const filters = await source.getSearchFilters();
+      const genres = filters[0].type == "multiselect" ? filters[0].options : [];
+
+      expect(genres.length).toBeGreaterThan(20);
+      expect(genres).toContainEqual({ id: "Murim", value: "Murim" });
+    });
+
+    it("browses the series listing when the title is empty", async () => {
+      app.server.on(
+        "https://kaynscan.com/series?page=1&genre=Action&genre=Martial Arts&status=ongoing&type=manhwa&order=popular",
+        "series-index.html",
+      );
+
+      const results = await source.getSearchResults(
+        {
+          title: "",
+          filters: [
+            {
+              id: "genres",
+              value: { "Martial Arts": "included", Action: "included" },
+            },
+            { id: "status", value: "ongoing" },
+            { id: "type", value: "manhwa" },
+            { id: "order", value: "popular" },
+          ],
+        },
+        undefined,
+      );
+
+      expect(app.requests[0].url).toBe(
+        "https://kaynscan.com/series?page=1&genre=Action&genre=Martial%20Arts&status=ongoing&type=manhwa&order=popular",
+      );
+      expect(results.items.map((x) => x.mangaId)).toEqual(["640e17f407b"]);
+    });
+  });
+
+  it("parses manga details", async () => {
+    const manga = await soloLeveling();
+
+    expect(manga.mangaInfo).toMatchObject({
+      primaryTitle: "Solo Leveling",
+      thumbnailUrl: "https://cdn.meowing.org/uploads/covers/solo-leveling.webp",
+      status: "ONGOING",
+      contentRating: ContentRating.EVERYONE,
+    });
+    expect(manga.mangaInfo.synopsis).toMatch(/^Ten years ago/);
+    expect(manga.mangaInfo.tagGroups?.[0].tags).toEqual([
+      { id: "action", title: "Action" },
+      { id: "fantasy", title: "Fantasy" },
+      { id: "adventure", title: "Adventure" },
+    ]);
+  });
+
+  it("parses credits, alternative titles and stats", async () => {
+    const manga = await soloLeveling();
+
+    expect(manga.mangaInfo).toMatchObject({
+      secondaryTitles: ["Na Honjaman Level Up", "나 혼자만 레벨업"],
+      author: "Chugong",
+      artist: "DUBU (REDICE STUDIO), Jang Sung-Rak",
+    });
+    expect(
+      manga.mangaInfo.tagGroups
+        ?.slice(1)
+        .map((group) => [group.id, group.tags.map((x) => x.title)]),
+    ).toEqual([
+      ["type", ["Manhwa"]],
+      ["authors", ["Chugong"]],
+      ["artists", ["DUBU (REDICE STUDIO)", "Jang Sung-Rak"]],
+      ["release", ["2018"]],
+      ["stats", ["1.2M views", "34.5K bookmarks"]],
+    ]);
+  });
+
+  it("rates series tagged Mature as adult", async () => {
+    app.server.on("https://kaynscan.com/series/640e17f407b/", {
+      body: app.server.read("series.html").replace(/Fantasy/g, "Mature"),
+    });
+
+    const manga = await soloLeveling();
+
+    expect(manga.mangaInfo.contentRating).toBe(ContentRating.ADULT);
+  });
+
+  it("parses free chapters newest first", async () => {
+    const chapters = await source.getChapters(await soloLeveling());
+
+    expect(chapters.map((x) => [x.chapterId, x.chapNum, x.title])).toEqual([
+      ["640d715df1f-640d77c18dc", 145, "Chapter 145"],
+      ["640d715df1f-640d77c18aa", 144, "Chapter 144"],
+      ["640d715df1f-640d77c18ab", 143.51, "Side Story"],
+      ["640d715df1f-640d77c1800", 143.5, "Chapter 143.5"],
+      ["640d715df1f-640d77c1700", 0, "Chapter 0 - Prologue"],
+    ]);
+    expect(chapters.map((x) => x.publishDate?.toISOString())).toEqual([
+      "2025-10-19T03:00:00.000Z",
+      "2025-10-12T12:00:00.000Z",
+      "2025-09-19T12:00:00.000Z",
+      "2025-08-19T12:00:00.000Z",
+      "2023-10-19T12:00:00.000Z",
+    ]);
+  });
+
+  it("parses chapter pages from src and uid attributes", async () => {
+    const manga = await soloLeveling();
+    const [latest] = await source.getChapters(manga);
+    const details = await source.getChapterDetails(latest);
+
+    expect(details.pages).toEqual([
+      "https://cdn.meowing.org/uploads/640d715df1f/001.webp",
+      "https://cdn.meowing.org/uploads/640d715df1f/002.webp",
+      "https://cdn.meowing.org/uploads/640d715df1f/003.webp",
+    ]);
+  });
+
+  describe("bot challenges", () => {
+    const challenged = (run: Promise<unknown>): Promise<unknown> =>
+      run.then(
+        () => undefined,
+        (error: unknown) => error,
+      );
+
+    it("raises the bypass for a DDoS-Guard interstitial", async () => {
+      app.server.on("https://kaynscan.com/series/640e17f407b/", {
+        body: '<title>DDoS-Guard</title><script src="https://check.ddos-guard.net/check.js"></script>',
+      });
+
+      const error = await challenged(soloLeveling());
+
+      expect(error).toBeInstanceOf(CloudflareError);
+      expect((error as CloudflareError).message).toBe(
+        "DDoS-Guard bypass is required",
+      );
+      expect((error as CloudflareError).resolutionRequest.url).toBe(
+        "https://kaynscan.com",
+      );
+    });
+
+    it("raises the bypass for the image CDN rather than the site", async () => {
+      const image = "https://cdn.meowing.org/uploads/covers/solo-leveling.webp";
+      app.server.on(image, {
+        headers: { "Content-Type": "text/html" },
+        body: "<html><head><title>Just a moment...</title></head></html>",
+      });
+
+      const error = await challenged(
+        Application.scheduleRequest({ url: image, method: "GET" }),
+      );
+
+      expect((error as CloudflareError).resolutionRequest.url).toBe(
+        "https://cdn.meowing.org",
+      );
+    });
+  });
+
+  it("reports a site that stays unavailable instead of parsing the error page", async () => {
+    app.server.on("https://kaynscan.com/series/640e17f407b/", { status: 502 });
+
+    await expect(soloLeveling()).rejects.toThrow(
+      new SiteBusyError("kaynscan.com", 502),
+    );
+  });
+
+  it("shows in settings that the site moved to another domain", async () => {
+    app.server.on("https://kaynscan.com/series/640e17f407b/", {
+      status: 301,
+      headers: { location: "https://kaynscan.org/series/640e17f407b/" },
+    });
+
+    await expect(soloLeveling()).rejects.toThrow(
+      new SiteMovedError({
+        from: "https://kaynscan.com",
+        to: "https://kaynscan.org",
+      }),
+    );
+    expect(formRow(await source.getSettingsForm(), "site_moved").value).toBe(
+      "https://kaynscan.org",
+    );
+  });
+
+  it("reports a Cloudflare-fronted outage as busy rather than a challenge", async () => {
+    app.server.on("https://kaynscan.com/series/640e17f407b/", {
+      status: 503,
+      headers: {
+        server: "cloudflare",
+        "cf-ray": "8c1f2a3b4d5e6f70-AMS",
+        "content-type": "text/html; charset=UTF-8",
+      },
+      body: "<title>503 Service Temporarily Unavailable</title>",
+    });
+
+    await expect(soloLeveling()).rejects.toThrow(
+      new SiteBusyError("kaynscan.com", 503),
+    );
+    // Giving up on a throttled host is no reason to look for another mirror
+    expect(app.requests.map((x) => x.url)).toEqual(
+      Array(4).fill("https://kaynscan.com/series/640e17f407b/"),
+    );
+  });
+
+  it("follows the site to the domain it moved to once it is picked", async () => {
+    const moved = {
+      status: 301,
+      headers: { location: "https://kaynscan.org/" },
+    };
+    app.server
+      .on("https://kaynscan.com/series/640e17f407b/", {
+        ...moved,
+        headers: { location: "https://kaynscan.org/series/640e17f407b/" },
+      })
+      .on("https://kaynscan.com/", moved)
+      .on("https://kaynscan.org/series/640e17f407b/", "series.html");
+
+    await expect(soloLeveling()).rejects.toThrow(SiteMovedError);
+    expect(source.mirrors.all).toEqual(["https://kaynscan.com"]);
+    expect(app.requests.map((x) => x.url)).not.toContain(
+      "https://kaynscan.org/series/640e17f407b/",
+    );
+
+    source.mirrors.use("https://kaynscan.org");
+    const manga = await soloLeveling();
+
+    expect(manga.mangaInfo.primaryTitle).toBe("Solo Leveling");
+    expect(app.requests.at(-1)?.url).toBe(
+      "https://kaynscan.org/series/640e17f407b/",
+    );
+  });
+
+  it("reads the series page once for details and chapters", async () => {
+    await source.getChapters(await soloLeveling());
+
+    expect(
+      app.requests.filter(
+        (x) => x.url == "https://kaynscan.com/series/640e17f407b/",
+      ),
+    ).toHaveLength(1);
+  });
+
+  it("reads a redirected series page without caching it", async () => {
+    app.server
+      .on("https://kaynscan.com/series/640e17f407b/", {
+        status: 302,
+        headers: { location: "/series/640e17f407b/?lang=en" },
+      })
+      .on("https://kaynscan.com/series/640e17f407b/?lang=en", "series.html");
+
+    const manga = await soloLeveling();
+    await source.getChapters(manga);
+
+    expect(manga.mangaInfo.primaryTitle).toBe("Solo Leveling");
+    expect(
+      app.requests.filter(
+        (x) => x.url == "https://kaynscan.com/series/640e17f407b/",
+      ),
+    ).toHaveLength(2);
+  });
+
+  describe("discover sections", () => {
+    it("lists popular series as featured items", async () => {
+      const results = await source.getDiscoverSectionItems(
+        await section("popular"),
+        undefined,
+      );
+
+      expect(results.items).toEqual([
+        {
+          type: "featuredCarouselItem",
+          mangaId: "640e17f407b",
+          imageUrl: "https://cdn.meowing.org/uploads/covers/solo-leveling.webp",
+          title: "Solo Leveling",
+          metadata: undefined,
+        },
+        {
+          type: "featuredCarouselItem",
+          mangaId: "641a2bc9e01",
+          imageUrl:
+            "https://cdn.meowing.org/uploads/covers/omniscient-reader.webp",
+          title: "Omniscient Reader",
+          metadata: undefined,
+        },
+      ]);
+      expect(results.metadata).toEqual({
+        page: 2,
+        collectedIds: ["640e17f407b", "641a2bc9e01"],
+      });
+    });
+
+    it("resolves relative covers in latest updates", async () => {
+      const results = await source.getDiscoverSectionItems(
+        await section("latest"),
+        undefined,
+      );
+
+      expect(results.items.map((x) => x.type)).toEqual([
+        "chapterUpdatesCarouselItem",
+        "chapterUpdatesCarouselItem",
+      ]);
+      expect(results.items[1]).toMatchObject({
+        mangaId: "640e17f407b",
+        imageUrl: "https://kaynscan.com/uploads/covers/solo-leveling.webp",
+      });
+      expect(results.metadata).toBeUndefined();
+    });
+
+    it("links latest updates to the newest free chapter", async () => {
+      const results = await source.getDiscoverSectionItems(
+        await section("latest"),
+        undefined,
+      );
+      const [latest] = await source.getChapters(await soloLeveling());
+
+      expect(results.items[0]).toMatchObject({
+        chapterId: "641a2bc9e01-641a2bd0002",
+        subtitle: "Ch. 230 • 2 hours ago",
+      });
+      expect(results.items[1]).toMatchObject({
+        chapterId: latest.chapterId,
+        subtitle: "Ch. 145 • 9 hours ago",
+      });
+    });
+
+    it("lists the homepage slider once per series", async () => {
+      const results = await source.getDiscoverSectionItems(
+        await section("featured"),
+        undefined,
+      );
+
+      expect(results.items).toEqual([
+        {
+          type: "featuredCarouselItem",
+          mangaId: "640e17f407b",
+          imageUrl:
+            "https://cdn.meowing.org/uploads/banners/solo-leveling.webp",
+          title: "Solo Leveling",
+          supertitle: "Action, Fantasy",
+          metadata: undefined,
+        },
+        {
+          type: "featuredCarouselItem",
+          mangaId: "641a2bc9e01",
+          imageUrl:
+            "https://kaynscan.com/uploads/banners/omniscient-reader.webp",
+          title: "Omniscient Reader",
+          supertitle: "Action, Mature",
+          metadata: undefined,
+        },
+      ]);
+      expect(results.metadata).toBeUndefined();
+    });
+
+    it("shows the newest free chapter on trending series", async () => {
+      const results = await source.getDiscoverSectionItems(
+        await section("trending"),
+        undefined,
+      );
+
+      expect(results.items).toMatchObject([
+        {
+          type: "prominentCarouselItem",
+          mangaId: "641a2bc9e01",
+          subtitle: "Ch. 230",
+        },
+        {
+          type: "prominentCarouselItem",
+          mangaId: "640e17f407b",
+          subtitle: "Ch. 145",
+        },
+      ]);
+    });
+
+    it("shows genres on weekly series without chapters", async () => {
+      const weekly = await source.getDiscoverSectionItems(
+        await section("weekly"),
+        undefined,
+      );
+      const newSeries = await source.getDiscoverSectionItems(
+        await section("new_series"),
+        undefined,
+      );
+
+      expect(weekly.items).toMatchObject([
+        { type: "simpleCarouselItem", subtitle: "Action, Fantasy" },
+        {
+          type: "simpleCarouselItem",
+          mangaId: "65f0aa11b22",
+          title: "The Greatest Estate Developer",
+          subtitle: "Comedy, Fantasy",
+        },
+      ]);
+      expect(newSeries.items).toMatchObject([
+        { mangaId: "66a1b2c3d44", subtitle: "Ch. 1" },
+      ]);
+    });
+
+    it("opens a genre search from the genre carousel", async () => {
+      const results = await source.getDiscoverSectionItems(
+        await section("genres"),
+        undefined,
+      );
+
+      expect(
+        results.items.map((x) => x.type == "genresCarouselItem" && x.name),
+      ).toEqual(["Action", "Adventure", "Fantasy", "Martial Arts"]);
+      expect(results.items[3]).toEqual({
+        type: "genresCarouselItem",
+        searchQuery: {
+          title: "",
+          filters: [{ id: "genres", value: { "Martial Arts": "included" } }],
+        },
+        name: "Martial Arts",
+        metadata: undefined,
+      });
+    });
+  });
+
+  describe("account", () => {
+    const loginUrl = "https://kaynscan.com/login";
+    const purchasedChapterUrl =
+      "https://kaynscan.com/chapter/640d715df1f-640d77c18ff/";
+
+    // Stand-in for the site's account pages: one account, which owns the
+    // locked chapter 146, and a session per login
+    let sessions: string[];
+    let logins: number;
+
+    beforeEach(() => {
+      sessions = [];
+      logins = 0;
+      app.server
+        .on(
+          loginUrl,
+          (request) => {
+            const form = new URLSearchParams(request.body as string);
+            if (
+              form.get("_token") != "kaynscan-csrf-token" ||
+              form.get("email") != "reader@example.com" ||
+              form.get("password") != "hunter2"
+            ) {
+              return { status: 401, body: "Invalid credentials" };
+            }
+            logins += 1;
+            sessions.push(`session-${logins}`);
+            return {
+              cookies: [
+                {
+                  name: "kaynscan_session",
+                  value: `session-${logins}`,
+                  domain: "kaynscan.com",
+                  path: "/",
+                },
+              ],
+              body: '<a href="/logout">Log out</a>',
+            };
+          },
+          "POST",
+        )
+        .on(
+          "https://kaynscan.com/logout",
+          (request) => {
+            const session = request.cookies?.["kaynscan_session"];
+            sessions = sessions.filter((x) => x != session);
+            return "";
+          },
+          "POST",
+        )
+        .on(purchasedChapterUrl, (request) =>
+          sessions.includes(request.cookies?.["kaynscan_session"] ?? "")
+            ? "chapter-owned.html"
+            : "chapter-locked.html",
+        );
+      app.setState(false, "skip_locked_chapters");
+    });
+
+    const logIn = async (password = "hunter2") => {
+      const form = await source.getSettingsForm();
+      await changeFormRow(form, "email", "reader@example.com");
+      await changeFormRow(form, "password", password);
+      await selectFormRow(form, "login");
+      return form;
+    };
+
+    const readPurchasedChapter = async () => {
+      const [chapter] = await source.getChapters(await soloLeveling());
+      return source.getChapterDetails(chapter);
+    };
+
+    it("logs in and reads purchased chapters", async () => {
+      const form = await logIn();
+
+      expect(app.requests.at(-1)?.headers).toMatchObject({
+        "content-type": "application/x-www-form-urlencoded",
+      });
+      expect(app.getSecureState("kaynscan_credentials")).toEqual({
+        email: "reader@example.com",
+        password: "hunter2",
+      });
+      expect(formRow(form, "account_status").value).toBe("reader@example.com");
+      expect((await readPurchasedChapter()).pages).toEqual([
+        "https://cdn.meowing.org/uploads/640d715df1f/146-001.webp",
+        "https://cdn.meowing.org/uploads/640d715df1f/146-002.webp",
+      ]);
+    });
+
+    it("posts the login form back with its CSRF token", async () => {
+      await logIn();
+
+      expect(app.requests.map((x) => [x.method, x.url])).toEqual([
+        ["GET", "https://kaynscan.com/series"],
+        ["GET", loginUrl],
+        ["POST", loginUrl],
+      ]);
+      expect(app.requests.at(-1)?.body).toBe(
+        "_token=kaynscan-csrf-token&email=reader%40example.com&password=hunter2",
+      );
+    });
+
+    it("reports a login page without a login form", async () => {
+      app.server.on(loginUrl, { status: 503, body: "" });
+
+      await expect(logIn()).rejects.toBeInstanceOf(LoginFormError);
+      expect(app.requests.some((x) => x.method == "POST")).toBe(false);
+    });
+
+    it("rejects a wrong password without keeping anything", async () => {
+      await expect(logIn("wrong")).rejects.toBeInstanceOf(LoginError);
+
+      expect(source.session.isLoggedIn()).toBe(false);
+      expect(app.getSecureState("kaynscan_credentials")).toBeUndefined();
+    });
+
+    it("logs out on the site and forgets the account", async () => {
+      const form = await logIn();
+
+      await selectFormRow(form, "logout");
+
+      expect(sessions).toEqual([]);
+      expect(source.session.isLoggedIn()).toBe(false);
+      expect(app.getSecureState("kaynscan_credentials")).toBeUndefined();
+      expect(formRow(form, "login")).toBeDefined();
+      await expect(readPurchasedChapter()).rejects.toBeInstanceOf(
+        ChapterLockedError,
+      );
+    });
+
+    it("logs in again when the site drops the session", async () => {
+      await logIn();
+      sessions = [];
+
+      const details = await readPurchasedChapter();
+
+      expect(details.pages).toHaveLength(2);
+      expect(logins).toBe(2);
+      expect(source.session.sessionCookie()?.value).toBe("session-2");
+    });
+
+    it("reports an expired session it cannot renew", async () => {
+      await logIn();
+      sessions = [];
+      app.server.on(loginUrl, { status: 401, body: "" }, "POST");
+
+      await expect(readPurchasedChapter()).rejects.toBeInstanceOf(
+        SessionExpiredError,
+      );
+      expect(source.session.isLoggedIn()).toBe(false);
+    });
+  });
+
+  describe("settings", () => {
+    it("hides discover sections turned off in settings", async () => {
+      const form = await source.getSettingsForm();
+      expect(formRow(form, "discover_sections").value).toEqual([
+        "featured",
+        "trending",
+        "latest",
+        "weekly",
+        "new_series",
+        "popular",
+        "genres",
+      ]);
+
+      await changeFormRow(form, "discover_sections", ["latest"]);
+
+      expect((await source.getDiscoverSections()).map((x) => x.id)).toEqual([
+        "latest",
+      ]);
+    });
+
+    it("searches with the default sort from settings", async () => {
+      app.server.on(
+        "https://kaynscan.com/search?q=solo&page=1&order=popular",
+        "search.html",
+      );
+      await changeFormRow(await source.getSettingsForm(), "default_sort", [
+        "popular",
+      ]);
+
+      await source.getSearchResults({ title: "solo", filters: [] }, undefined);
+
+      expect(app.requests.at(-1)?.url).toBe(
+        "https://kaynscan.com/search?q=solo&page=1&order=popular",
+      );
+    });
+
+    it("leaves hidden genres out of filters and details", async () => {
+      await changeFormRow(await source.getSettingsForm(), "hidden_genres", [
+        "Fantasy",
+      ]);
+
+      const filters = await source.getSearchFilters();
+      const genres = filters[0].type == "multiselect" ? filters[0].options : [];
+      const manga = await soloLeveling();
+
+      expect(genres.map((x) => x.id)).toEqual([
+        "Action",
+        "Adventure",
+        "Martial Arts",
+      ]);
+      expect(manga.mangaInfo.tagGroups?.[0].tags.map((x) => x.id)).toEqual([
+        "action",
+        "adventure",
+      ]);
+    });
+
+    it("lists locked chapters when the user turns skipping off", async () => {
+      await changeFormRow(
+        await source.getSettingsForm(),
+        "skip_locked_chapters",
+        false,
+      );
+
+      const chapters = await source.getChapters(await soloLeveling());
+
+      expect(chapters[0]).toMatchObject({
+        chapterId: "640d715df1f-640d77c18ff",
+        chapNum: 146,
+        title: "🔒 Chapter 146 (75 coins, free 2025-10-26)",
+      });
+      expect(chapters[1].title).toBe("Chapter 145");
+    });
+
+    it("explains how to read a locked chapter", async () => {
+      await changeFormRow(
+        await source.getSettingsForm(),
+        "skip_locked_chapters",
+        false,
+      );
+      const [locked] = await source.getChapters(await soloLeveling());
+
+      const error: unknown = await source
+        .getChapterDetails(locked)
+        .catch((e: unknown) => e);
+
+      expect(error).toBeInstanceOf(ChapterLockedError);
+      expect(error).toMatchObject({
+        chapterId: "640d715df1f-640d77c18ff",
+        coins: 75,
+        freeDate: new Date("2025-10-26T00:00:00Z"),
+        message:
+          "This chapter is locked. Unlock it for 75 coins on kaynscan.com or wait until it is free on 2025-10-26.",
+      });
+    });
+
+    it("reads the free date from the element that holds it", async () => {
+      app.setState(false, "skip_locked_chapters");
+      app.server.on("https://kaynscan.com/chapter/640d715df1f-640d77c18ff/", {
+        body: app.server
+          .read("chapter-locked.html")
+          .replace(
+            '<p class="text-xs text-amber-400">Free on Oct 26, 2025</p>',
+            "<p>Free soon</p><div><span>Free on Oct 26, 2025</span> <b>Unlock</b></div>",
+          ),
+      });
+      const [locked] = await source.getChapters(await soloLeveling());
+
+      const error: unknown = await source
+        .getChapterDetails(locked)
+        .catch((e: unknown) => e);
+
+      expect(error).toMatchObject({
+        freeDate: new Date("2025-10-26T00:00:00Z"),
+      });
+    });
+
+    it("reloads the series page once a locked chapter turns out to be owned", async () => {
+      app.setState(false, "skip_locked_chapters");
+      app.server.on(
+        "https://kaynscan.com/chapter/640d715df1f-640d77c18ff/",
+        "chapter.html",
+      );
+      const [locked] = await source.getChapters(await soloLeveling());
+
+      await source.getChapterDetails(locked);
+      await soloLeveling();
+
+      expect(
+        app.requests.filter(
+          (x) => x.url == "https://kaynscan.com/series/640e17f407b/",
+        ),
+      ).toHaveLength(2);
+    });
+
+    it("points locked chapters at the mirror in use", async () => {
+      source.mirrors.use("kaynscan.org");
+      app.server
+        .on("https://kaynscan.org/series/640e17f407b/", "series.html")
+        .on(
+          "https://kaynscan.org/chapter/640d715df1f-640d77c18ff/",
+          "chapter-locked.html",
+        );
+      app.setState(false, "skip_locked_chapters");
+      const [locked] = await source.getChapters(await soloLeveling());
+
+      const error: unknown = await source
+        .getChapterDetails(locked)
+        .catch((e: unknown) => e);
+
+      expect((error as ChapterLockedError).message).toContain(
+        "Unlock it for 75 coins on kaynscan.org",
+      );
+    });
+
+    it("applies the request rate to the rate limiter", async () => {
+      app.setState(1, "requests_per_second");
+      source = new KaynscanExtension();
+      await source.initialise();
+      expect(source.globalRateLimiter.options.numberOfRequests).toBe(1);
+
+      await changeFormRow(
+        await source.getSettingsForm(),
+        "requests_per_second",
+        ["3"],
+      );
+      expect(source.globalRateLimiter.options.numberOfRequests).toBe(3);
+    });
+  });
+
+  describe("blocked genres", () => {
+    it("hides titles whose details list a blocked genre", async () => {
+      await soloLeveling();
+      await changeFormRow(await source.getSettingsForm(), "blocked_genres", [
+        "Fantasy",
+      ]);
+
+      const popular = await source.getDiscoverSectionItems(
+        await section("popular"),
+        undefined,
+      );
+      const search = await source.getSearchResults(
+        { title: "solo", filters: [] },
+        undefined,
+      );
+
+      expect(
+        popular.items.map((x) => x.type != "genresCarouselItem" && x.mangaId),
+      ).toEqual(["641a2bc9e01"]);
+      expect(search.items.map((x) => x.mangaId)).not.toContain("640e17f407b");
+    });
+  });
+});
@@ -0,0 +1,980 @@
+import {
+  CloudflareError,
+  ContentRating,
+  DiscoverSection,
+  DiscoverSectionType,
+  Form,
+  Request,
+  SourceManga,
+} from "@paperback/types";
+import { beforeEach, describe, expect, it } from "vitest";
+import { MangabuddyExtension } from "../src/Mangabuddy/main";
+import { BlockedTitleError } from "../src/utils/genre-blocklist";
+import { SiteBusyError } from "../src/utils/rate-limiter";
+import { installApplication, MockApplication } from "./harness/application";
+import { FixtureServer } from "./harness/fixtures";
+import {
+  changeFormRow,
+  formRow,
+  navigateFormRow,
+  selectFormRow,
+} from "./harness/forms";
+import { mangaIdOf } from "./harness/items";
+
+describe("Mangabuddy", () => {
+  let app: MockApplication;
+  let source: MangabuddyExtension;
+
+  const section = async (id: string): Promise<DiscoverSection> => {
+    const sections = await source.getDiscoverSections();
+    const found = sections.find((x) => x.id == id);
+    if (!found) throw new Error(`Missing discover section ${id}`);
+    return found;
+  };
+
+  const shark = async (): Promise<SourceManga> =>
+    source.getMangaDetails("shark");
+
+  beforeEach(async () => {
+    app = installApplication(FixtureServer.forSource("Mangabuddy"));
+    source = new MangabuddyExtension();
+    source.clock = () => new Date("2025-10-19T12:00:00Z");
+    await source.initialise();
+  });
+
+  it("sends the site referer and the app user agent", async () => {
+    await source.getMangaDetails("shark");
+
+    expect(app.requests[0].headers).toMatchObject({
+      referer: "https://mangabuddy.com/",
+      "user-agent": app.userAgent,
+    });
+  });
+
+  describe("bot challenges", () => {
+    const challenged = (run: Promise<unknown>): Promise<unknown> =>
+      run.then(
+        () => undefined,
+        (error: unknown) => error,
+      );
+
+    it("raises the bypass for a challenge page served with 200", async () => {
+      app.server.on("https://mangabuddy.com/shark", {
+        headers: { "content-type": "text/html; charset=UTF-8" },
+        body: "<html><head><title>Just a moment...</title></head></html>",
+      });
+
+      const error = await challenged(source.getMangaDetails("shark"));
+
+      expect(error).toBeInstanceOf(CloudflareError);
+      expect((error as CloudflareError).resolutionRequest.url).toBe(
+        "https://mangabuddy.com",
+      );
+    });
+
+    it("raises the bypass for the image host that challenged", async () => {
+      app.server.on("https://thumb.youmadcdn.xyz/thumb/shark.png", {
+        status: 403,
+        headers: { "cf-mitigated": "challenge", "content-type": "text/html" },
+      });
+
+      const error = await challenged(
+        Application.scheduleRequest({
+          url: "https://thumb.youmadcdn.xyz/thumb/shark.png",
+          method: "GET",
+        }),
+      );
+
+      expect((error as CloudflareError).resolutionRequest.url).toBe(
+        "https://thumb.youmadcdn.xyz",
+      );
+    });
+  });
+
+  it("retries a page the site throttled", async () => {
+    let attempts = 0;
+    app.server.on("https://mangabuddy.com/shark", () =>
+      ++attempts == 1
+        ? { status: 429, headers: { "retry-after": "2" } }
+        : "manga.html",
+    );
+
+    const manga = await shark();
+
+    expect(manga.mangaInfo.primaryTitle).toBe("Shark");
+    expect(attempts).toBe(2);
+  });
+
+  it("retries an origin error served through Cloudflare", async () => {
+    let attempts = 0;
+    app.server.on("https://mangabuddy.com/shark", () =>
+      ++attempts == 1
+        ? {
+            status: 503,
+            headers: {
+              server: "cloudflare",
+              "cf-ray": "8c1f2a3b4d5e6f70-AMS",
+              "content-type": "text/html",
+            },
+            body: "<title>503 Service Temporarily Unavailable</title>",
+          }
+        : "manga.html",
+    );
+
+    const manga = await shark();
+
+    expect(manga.mangaInfo.primaryTitle).toBe("Shark");
+    expect(attempts).toBe(2);
+  });
+
+  it("reads the home page once for genres and the popular section", async () => {
+    await source.getSearchFilters();
+    await source.getDiscoverSectionItems(
+      await section("popular_section"),
+      undefined,
+    );
+
+    expect(
+      app.requests.filter((x) => x.url == "https://mangabuddy.com/home"),
+    ).toHaveLength(1);
+  });
+
+  it("keeps the genre list across restarts instead of the home page", async () => {
+    await source.getSearchFilters();
+    const restarted = new MangabuddyExtension();
+    await restarted.initialise();
+
+    const filters = await restarted.getSearchFilters();
+
+    expect(filters.map((x) => x.id)).toContain("genres");
+    expect(
+      app.requests.filter((x) => x.url == "https://mangabuddy.com/home"),
+    ).toHaveLength(1);
+    expect(app.getState("response_cache")).toBeUndefined();
+  });
+
+  it("caches title pages but not the site's own pages", () => {
+    const page = (path: string) => ({
+      url: `https://mangabuddy.com/${path}`,
+      method: "GET",
+    });
+    for (const path of ["shark", "latest", "login"]) {
+      source.responseCache.set(page(path), path);
+    }
+
+    expect(source.responseCache.get(page("shark"))).toBe("shark");
+    expect(source.responseCache.get(page("latest"))).toBeUndefined();
+    expect(source.responseCache.get(page("login"))).toBeUndefined();
+  });
+
+  describe("cookies", () => {
+    const inDays = (days: number): Date =>
+      new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+    const clearance = {
+      name: "cf_clearance",
+      value: "cleared",
+      domain: ".mangabuddy.com",
+      path: "/",
+      expires: new Date("2099-01-01T08:30:00Z"),
+    };
+    const session = {
+      name: "mangabuddy_session",
+      value: "abc",
+      domain: "mangabuddy.com",
+      path: "/",
+    };
+
+    const cookiesPage = async (): Promise<Form> =>
+      navigateFormRow(await source.getSettingsForm(), "cookies");
+
+    it("registers the cookie jar", () => {
+      expect(app.registeredInterceptors()).toEqual([
+        "main",
+        "rateLimiter",
+        "cookie_store",
+      ]);
+    });
+
+    it("sends bypass cookies and keeps the rest", async () => {
+      source.cookieJar.setCookie(session);
+      source.cookieJar.setCookie({
+        name: "cf_clearance",
+        value: "image-host",
+        domain: "thumb.youmadcdn.xyz",
+        expires: inDays(1),
+      });
+
+      await source.saveCloudflareBypassCookies([
+        clearance,
+        { ...clearance, name: "__cf_bm", expires: inDays(-1) },
+      ]);
+      await source.getMangaDetails("shark");
+
+      expect(app.requests[0].cookies).toEqual({
+        cf_clearance: "cleared",
+        mangabuddy_session: "abc",
+      });
+      expect(source.cookieJar.cookies).toHaveLength(3);
+    });
+
+    it("lists stored cookies with the clearance expiry", async () => {
+      source.cookieJar.setCookie(clearance);
+      source.cookieJar.setCookie(session);
+
+      const page = await cookiesPage();
+
+      expect(formRow(page, "clearance_expiry").value).toBe(
+        "Until 2099-01-01 08:30 UTC",
+      );
+      expect(formRow(page, "cookie_1")).toMatchObject({
+        title: "mangabuddy_session",
+        subtitle: "mangabuddy.com/",
+        value: "Session",
+      });
+    });
+
+    it("clears cookies but stays logged in", async () => {
+      source.cookieJar.setCookie(clearance);
+      source.cookieJar.setCookie(session);
+
+      await selectFormRow(await cookiesPage(), "clear_cookies");
+
+      expect(source.cookieJar.cookies).toEqual([session]);
+      expect(source.session.isLoggedIn()).toBe(true);
+    });
+
+    it("drops the clearance and asks for the bypass again", async () => {
+      source.cookieJar.setCookie(clearance);
+
+      const error = await selectFormRow(await cookiesPage(), "rerun_bypass")
+        .then(() => undefined)
+        .catch((error: unknown) => error);
+
+      expect((error as CloudflareError).resolutionRequest.url).toBe(
+        "https://mangabuddy.com",
+      );
+      expect(source.cookieJar.cookies).toEqual([]);
+    });
+  });
+
+  describe("mirrors", () => {
+    it("reads stored titles from an address entered in settings", async () => {
+      app.server.on("https://mangabuddy.me/shark", "manga.html");
+      const page = navigateFormRow(await source.getSettingsForm(), "mirrors");
+
+      await changeFormRow(page, "mirror_address", "mangabuddy.me");
+      await selectFormRow(page, "use_mirror");
+      const manga = await shark();
+
+      expect(manga.mangaInfo.primaryTitle).toBe("Shark");
+      expect(app.requests.at(-1)).toMatchObject({
+        url: "https://mangabuddy.me/shark",
+        headers: { referer: "https://mangabuddy.me/" },
+      });
+    });
+
+    it("switches to a working mirror when the site stops answering", async () => {
+      source.mirrors.add("https://mangabuddy.me");
+      app.server
+        .on("https://mangabuddy.com/shark", () => {
+          throw new Error("The network connection was lost.");
+        })
+        .on("https://mangabuddy.com/", { status: 521 })
+        .on("https://mangabuddy.me/", { body: "ok" })
+        .on("https://mangabuddy.me/shark", "manga.html");
+
+      await shark();
+
+      expect(app.requests.map((x) => x.url)).toEqual([
+        "https://mangabuddy.com/shark",
+        "https://mangabuddy.com/",
+        "https://mangabuddy.me/",
+        "https://mangabuddy.me/shark",
+      ]);
+      const page = navigateFormRow(await source.getSettingsForm(), "mirrors");
+      expect(formRow(page, "base_url").value).toEqual([
+        "https://mangabuddy.me",
+      ]);
+    });
+  });
+
+  describe("getSearchResults", () => {
+    it("parses result cards and the next page", async () => {
+      const results = await source.getSearchResults(
+        { title: "shark", filters: [] },
+        undefined,
+      );
+
+      expect(results.items).toEqual([
+        {
+          mangaId: "shark",
+          imageUrl: "https://thumb.youmadcdn.xyz/thumb/shark.png",
+          title: "Shark",
+          subtitle: "Ch. 79",
+        },
+        {
+          mangaId: "shark-heaven",
+          imageUrl: "https://thumb.youmadcdn.xyz/thumb/shark-heaven.png",
+          title: "Shark Heaven",
+          subtitle: "Ch. 12",
+        },
+      ]);
+      expect(results.metadata).toEqual({
+        page: 2,
+        collectedIds: ["shark", "shark-heaven"],
+      });
+    });
+
+    it("sends every included genre", async () => {
+      app.server.on(
+        "https://mangabuddy.com/search?q=shark&page=1&genre[]=action&genre[]=sports&sort=views",
+        "search.html",
+      );
+
+      await source.getSearchResults(
+        {
+          title: "shark",
+          filters: [
+            { id: "genres", value: { sports: "included", action: "included" } },
+          ],
+        },
+        undefined,
+      );
+
+      expect(app.requests[0].url).toBe(
+        "https://mangabuddy.com/search?q=shark&page=1&genre%5B%5D=action&genre%5B%5D=sports&sort=views",
+      );
+    });
+
+    it("drops cards tagged with an excluded genre", async () => {
+      const results = await source.getSearchResults(
+        {
+          title: "shark",
+          filters: [{ id: "genres", value: { smut: "excluded" } }],
+        },
+        undefined,
+      );
+
+      expect(results.items.map((x) => x.mangaId)).toEqual([
+        "shark",
+        "loan-shark-hunter",
+      ]);
+      expect(app.requests.map((x) => x.url)).toEqual([
+        "https://mangabuddy.com/search?q=shark&page=1&sort=views",
+        "https://mangabuddy.com/search?q=shark&page=2&sort=views",
+      ]);
+      expect(results.metadata).toBeUndefined();
+    });
+
+    it("continues from the site page carried in the metadata", async () => {
+      const results = await source.getSearchResults(
+        { title: "shark", filters: [] },
+        { page: 2, collectedIds: ["shark", "shark-heaven"] },
+      );
+
+      expect(app.requests.map((x) => x.url)).toEqual([
+        "https://mangabuddy.com/search?q=shark&page=2&sort=views",
+      ]);
+      expect(results.items.map((x) => x.mangaId)).toEqual([
+        "loan-shark-hunter",
+      ]);
+      expect(results.metadata).toBeUndefined();
+    });
+  });
+
+  it("lists genres from the home page without ranking or status links", async () => {
+    const filters = await source.getSearchFilters();
+    const genres = filters.find((x) => x.id == "genres");
+
+    expect(genres?.type).toBe("multiselect");
+    expect(genres && "options" in genres ? genres.options : []).toEqual([
+      { id: "action", value: "Action" },
+      { id: "martial-arts", value: "Martial arts" },
+      { id: "romance", value: "Romance" },
+      { id: "smut", value: "Smut" },
+      { id: "sports", value: "Sports" },
+    ]);
+  });
+
+  it("parses manga details", async () => {
+    const manga = await shark();
+
+    expect(manga.mangaId).toBe("shark");
+    expect(manga.mangaInfo).toMatchObject({
+      primaryTitle: "Shark",
+      secondaryTitles: ["Sha-keu", "샤크"],
+      thumbnailUrl: "https://thumb.youmadcdn.xyz/thumb/shark.png",
+      author: "Kim Woo-Seob",
+      artist: "Kim Woo-Seob, Park Seong-Ho",
+      rating: 0.9,
+      status: "ONGOING",
+      contentRating: ContentRating.EVERYONE,
+    });
+    expect(manga.mangaInfo.synopsis).toMatch(/^After being bullied/);
+    expect(manga.mangaInfo.tagGroups?.[0].tags.map((x) => x.id)).toEqual([
+      "action",
+      "martial-arts",
+      "sports",
+    ]);
+    expect(
+      manga.mangaInfo.tagGroups
+        ?.slice(1)
+        .map((group) => [group.id, group.tags.map((x) => x.title)]),
+    ).toEqual([
+      ["type", ["Manhwa"]],
+      ["authors", ["Kim Woo-Seob"]],
+      ["artists", ["Kim Woo-Seob", "Park Seong-Ho"]],
+      ["release", ["2020"]],
+      ["stats", ["1.2M views", "15.2K bookmarks"]],
+    ]);
+  });
+
+  it("leaves out the rating when the page has none", async () => {
+    app.server.on("https://mangabuddy.com/shark", {
+      body: app.server
+        .read("manga.html")
+        .replace('<span class="rating">4.5</span>', ""),
+    });
+
+    expect((await shark()).mangaInfo.rating).toBeUndefined();
+  });
+
+  it("parses chapters newest first", async () => {
+    const chapters = await source.getChapters(await shark());
+
+    expect(
+      chapters.map((x) => [x.chapterId, x.chapNum, x.volume, x.title]),
+    ).toEqual([
+      ["chapter-79-running-away", 79, undefined, "Chapter 79 - Running Away"],
+      ["vol-1-chapter-63", 63, 1, "Chapter 63"],
+      ["chapter-62", 62, undefined, "Chapter 62"],
+      ["extra-1", 61.01, undefined, "Extra 1"],
+      ["chapter-61", 61, undefined, "Chapter 61"],
+      ["prologue", 0, undefined, "Prologue"],
+    ]);
+    expect(chapters.map((x) => x.publishDate?.toISOString())).toEqual([
+      "2025-10-17T12:00:00.000Z",
+      "2025-10-05T00:00:00.000Z",
+      "2025-09-28T00:00:00.000Z",
+      "2025-09-21T00:00:00.000Z",
+      "2025-09-14T00:00:00.000Z",
+      "2024-01-05T00:00:00.000Z",
+    ]);
+  });
+
+  it("parses chapter pages from the inline script", async () => {
+    const manga = await shark();
+    const [latest] = await source.getChapters(manga);
+    const details = await source.getChapterDetails(latest);
+
+    expect(details).toEqual({
+      mangaId: "shark",
+      id: "chapter-79-running-away",
+      pages: [
+        "https://s1.mbcdn.xyz/res/manga/shark/chapter-79/1.jpg",
+        "https://s1.mbcdn.xyz/res/manga/shark/chapter-79/2.jpg",
+        "https://s1.mbcdn.xyz/res/manga/shark/chapter-79/3.jpg",
+      ],
+    });
+  });
+
+  describe("discover sections", () => {
+    it("scrapes popular titles from the home page", async () => {
+      const results = await source.getDiscoverSectionItems(
+        await section("popular_section"),
+        undefined,
+      );
+
+      expect(results.items.map((x) => x.type)).toEqual([
+        "featuredCarouselItem",
+        "featuredCarouselItem",
+      ]);
+      expect(results.items[0]).toMatchObject({
+        mangaId: "shark",
+        title: "Shark",
+        supertitle: "Ch. 79",
+      });
+      expect(results.metadata).toBeUndefined();
+    });
+
+    it("pages through recently updated titles", async () => {
+      const results = await source.getDiscoverSectionItems(
+        await section("updated_section"),
+        undefined,
+      );
+
+      expect(results.items.map(mangaIdOf)).toEqual([
+        "shark",
+        "the-beginning-after-the-end",
+      ]);
+      expect(results.metadata).toEqual({
+        page: 2,
+        collectedIds: ["shark", "the-beginning-after-the-end"],
+      });
+    });
+
+    it("links recently updated titles to their chapter URLs", async () => {
+      const results = await source.getDiscoverSectionItems(
+        await section("updated_section"),
+        undefined,
+      );
+      const [latest] = await source.getChapters(await shark());
+
+      expect(results.items[0]).toMatchObject({
+        chapterId: latest.chapterId,
+        subtitle: "Ch. 79 • 2 hours ago",
+      });
+      expect(results.items[1]).toMatchObject({
+        chapterId: "chapter-213",
+        subtitle: "Ch. 213 • 5 hours ago",
+      });
+    });
+
+    it("lists new manga from the search page", async () => {
+      const results = await source.getDiscoverSectionItems(
+        await section("new_manga_section"),
+        undefined,
+      );
+
+      expect(results.items).toEqual([
+        {
+          type: "simpleCarouselItem",
+          mangaId: "villainess-in-training",
+          imageUrl:
+            "https://thumb.youmadcdn.xyz/thumb/villainess-in-training.png",
+          title: "Villainess in Training",
+          subtitle: "Ch. 3",
+          metadata: undefined,
+        },
+      ]);
+      expect(results.metadata).toBeUndefined();
+    });
+
+    it("ranks top titles across pages", async () => {
+      const top = await section("top_day_section");
+      const first = await source.getDiscoverSectionItems(top, undefined);
+
+      expect(first.items).toMatchObject([
+        { mangaId: "shark", supertitle: "#1 • Ch. 79" },
+        { mangaId: "the-beginning-after-the-end", supertitle: "#2 • Ch. 213" },
+      ]);
+      expect(first.metadata).toEqual({
+        page: 2,
+        offset: 2,
+        collectedIds: ["shark", "the-beginning-after-the-end"],
+      });
+
+      const second = await source.getDiscoverSectionItems(
+        top,
+        first.metadata as { page: number },
+      );
+      // Titles that moved up between pages are not listed twice
+      expect(second.items).toMatchObject([
+        { mangaId: "loan-shark-hunter", supertitle: "#4 • Ch. 40" },
+      ]);
+      expect(second.metadata).toBeUndefined();
+    });
+
+    it("lists completed titles with their last chapter", async () => {
+      const results = await source.getDiscoverSectionItems(
+        await section("completed_section"),
+        undefined,
+      );
+
+      expect(results.items).toEqual([
+        {
+          type: "featuredCarouselItem",
+          mangaId: "a-finished-story",
+          imageUrl: "https://thumb.youmadcdn.xyz/thumb/a-finished-story.png",
+          title: "A Finished Story",
+          supertitle: "Ch. 120",
+          metadata: undefined,
+        },
+        expect.objectContaining({ mangaId: "loan-shark-hunter" }),
+      ]);
+    });
+  });
+
+  describe("bookmarks", () => {
+    const collection = { id: "bookmarks", title: "Mangabuddy Bookmarks" };
+
+    // Stand-in for the site's account pages: one account, a session per
+    // login and the bookmarks that session changed
+    let sessions: string[];
+    let bookmarkChanges: string[];
+
+    const hasSession = (request: Request) =>
+      sessions.includes(request.cookies?.["mangabuddy_session"] ?? "");
+
+    beforeEach(() => {
+      sessions = [];
+      bookmarkChanges = [];
+      app.server
+        .on(
+          "https://mangabuddy.com/api/user/login",
+          (request) => {
+            if (
+              request.body !=
+              "_csrf=mangabuddy-csrf-token&email=reader%40example.com&password=hunter2"
+            ) {
+              return { status: 401, body: "{}" };
+            }
+            const session = `session-${sessions.length + 1}`;
+            sessions.push(session);
+            return {
+              cookies: [
+                {
+                  name: "mangabuddy_session",
+                  value: session,
+                  domain: "mangabuddy.com",
+                  path: "/",
+                },
+              ],
+              body: "{}",
+            };
+          },
+          "POST",
+        )
+        .on(/\/bookmark\?page=\d+$/, (request) => {
+          if (!hasSession(request)) {
+            return { body: '<a href="/login">Log in</a>' };
+          }
+          return request.url.endsWith("page=1")
+            ? "bookmarks.html"
+            : "bookmarks-2.html";
+        })
+        .on(
+          "https://mangabuddy.com/api/bookmark",
+          (request) => {
+            if (!hasSession(request)) return { status: 401, body: "{}" };
+            bookmarkChanges.push(request.body as string);
+            return { body: "{}" };
+          },
+          "POST",
+        )
+        .on("https://mangabuddy.com/api/user/logout", { body: "{}" }, "POST");
+    });
+
+    const logIn = async () => {
+      const form = await source.getSettingsForm();
+      await changeFormRow(form, "email", "reader@example.com");
+      await changeFormRow(form, "password", "hunter2");
+      await selectFormRow(form, "login");
+      return form;
+    };
+
+    it("offers the bookmark collection once logged in", async () => {
+      expect(await source.getManagedLibraryCollections()).toEqual([]);
+
+      const form = await logIn();
+
+      expect(formRow(form, "account_status").value).toBe("reader@example.com");
+      expect(await source.getManagedLibraryCollections()).toEqual([collection]);
+    });
+
+    it("lists bookmarks across pages", async () => {
+      await logIn();
+
+      const manga = await source.getSourceMangaInManagedCollection(collection);
+
+      expect(manga.map((x) => x.mangaId)).toEqual([
+        "shark",
+        "loan-shark-hunter",
+        "villainess-in-training",
+      ]);
+      expect(manga[0].mangaInfo).toMatchObject({
+        primaryTitle: "Shark",
+        thumbnailUrl: "https://thumb.youmadcdn.xyz/thumb/shark.png",
+      });
+    });
+
+    it("pushes added and removed bookmarks to the site", async () => {
+      await logIn();
+      const [shark, loanSharkHunter] =
+        await source.getSourceMangaInManagedCollection(collection);
+
+      await source.commitManagedCollectionChanges({
+        collection,
+        additions: [loanSharkHunter],
+        deletions: [shark],
+      });
+
+      expect(bookmarkChanges).toEqual([
+        "slug=loan-shark-hunter&action=add",
+        "slug=shark&action=remove",
+      ]);
+    });
+
+    it("reports a throttled bookmark change as the site being busy", async () => {
+      await logIn();
+      const [bookmark] =
+        await source.getSourceMangaInManagedCollection(collection);
+      app.server.on(
+        "https://mangabuddy.com/api/bookmark",
+        { status: 429, body: "{}" },
+        "POST",
+      );
+
+      await expect(
+        source.commitManagedCollectionChanges({
+          collection,
+          additions: [],
+          deletions: [bookmark],
+        }),
+      ).rejects.toEqual(new SiteBusyError("mangabuddy.com", 429));
+    });
+
+    it("does not count a bookmark change sent to the login page as done", async () => {
+      await logIn();
+      const [bookmark] =
+        await source.getSourceMangaInManagedCollection(collection);
+      app.server.on(
+        "https://mangabuddy.com/api/bookmark",
+        { status: 302, headers: { location: "/login" } },
+        "POST",
+      );
+
+      await expect(
+        source.commitManagedCollectionChanges({
+          collection,
+          additions: [],
+          deletions: [bookmark],
+        }),
+      ).rejects.toThrow(
+        "Mangabuddy did not remove the bookmark for shark (HTTP 302)",
+      );
+    });
+
+    it("reloads a title page after its bookmark changes", async () => {
+      await logIn();
+      const [bookmark] =
+        await source.getSourceMangaInManagedCollection(collection);
+      await shark();
+
+      await source.commitManagedCollectionChanges({
+        collection,
+        additions: [],
+        deletions: [bookmark],
+      });
+      await shark();
+
+      expect(
+        app.requests.filter((x) => x.url == "https://mangabuddy.com/shark"),
+      ).toHaveLength(2);
+    });
+
+    it("logs in again when the site drops the session", async () => {
+      await logIn();
+      sessions = ["unrelated"];
+      const manga = await source.getSourceMangaInManagedCollection(collection);
+
+      await source.commitManagedCollectionChanges({
+        collection,
+        additions: [manga[2]],
+        deletions: [],
+      });
+
+      expect(manga).toHaveLength(3);
+      expect(source.session.sessionCookie()?.value).toBe("session-2");
+      expect(bookmarkChanges).toEqual([
+        "slug=villainess-in-training&action=add",
+      ]);
+    });
+
+    it("links library items to bookmarks by ID or title", async () => {
+      await logIn();
+      const [shark, , villainess] =
+        await source.getSourceMangaInManagedCollection(collection);
+      const elsewhere = {
+        ...villainess,
+        mangaId: "other-source-id",
+        mangaInfo: {
+          ...villainess.mangaInfo,
+          primaryTitle: "Villainess In Training!",
+        },
+      };
+      const unrelated = { ...elsewhere, mangaId: "unrelated" };
+      unrelated.mangaInfo = { ...elsewhere.mangaInfo, primaryTitle: "Other" };
+
+      const libraryItem = (primarySource: SourceManga) => ({
+        id: primarySource.mangaId,
+        primarySource,
+        secondarySources: [],
+        trackedSources: [],
+      });
+      const proposals = await source.prepareLibraryItems([
+        libraryItem(shark),
+        libraryItem(elsewhere),
+        libraryItem(unrelated),
+      ]);
+
+      expect(
+        proposals.map((x) => [x.libraryItem.id, x.sourceManga.mangaId]),
+      ).toEqual([
+        ["shark", "shark"],
+        ["other-source-id", "villainess-in-training"],
+      ]);
+    });
+
+    it("drops the collection after logging out", async () => {
+      const form = await logIn();
+
+      await selectFormRow(form, "logout");
+
+      expect(await source.getManagedLibraryCollections()).toEqual([]);
+      expect(app.getSecureState("mangabuddy_credentials")).toBeUndefined();
+    });
+  });
+
+  describe("settings", () => {
+    it("hides discover sections turned off in settings", async () => {
+      const form = await source.getSettingsForm();
+      expect(formRow(form, "discover_sections").value).toEqual([
+        "popular_section",
+        "updated_section",
+        "new_manga_section",
+        "top_day_section",
+        "top_week_section",
+        "top_month_section",
+        "completed_section",
+      ]);
+
+      await changeFormRow(form, "discover_sections", ["updated_section"]);
+
+      expect((await source.getDiscoverSections()).map((x) => x.id)).toEqual([
+        "updated_section",
+      ]);
+    });
+
+    it("adds carousels for genres picked in settings", async () => {
+      app.server.on(
+        "https://mangabuddy.com/genres/martial-arts?page=1",
+        "latest-2.html",
+      );
+      const form = await source.getSettingsForm();
+      expect(formRow(form, "genre_carousels").value).toEqual([]);
+
+      await changeFormRow(form, "genre_carousels", ["martial-arts"]);
+
+      const sections = await source.getDiscoverSections();
+      expect(sections.at(-1)).toEqual({
+        id: "genre_martial-arts",
+        title: "Martial arts",
+        type: DiscoverSectionType.simpleCarousel,
+      });
+
+      const results = await source.getDiscoverSectionItems(
+        await section("genre_martial-arts"),
+        undefined,
+      );
+      expect(results.items).toEqual([
+        {
+          type: "simpleCarouselItem",
+          mangaId: "loan-shark-hunter",
+          imageUrl: "https://thumb.youmadcdn.xyz/thumb/loan-shark-hunter.png",
+          title: "Loan Shark Hunter",
+          subtitle: "Ch. 40",
+          metadata: undefined,
+        },
+      ]);
+      expect(results.metadata).toBeUndefined();
+    });
+
+    it("searches with the default sort from settings", async () => {
+      app.server.on(
+        "https://mangabuddy.com/search?q=shark&page=1&sort=updated",
+        "search-2.html",
+      );
+      await changeFormRow(await source.getSettingsForm(), "default_sort", [
+        "updated",
+      ]);
+
+      await source.getSearchResults({ title: "shark", filters: [] }, undefined);
+
+      expect(app.requests.at(-1)?.url).toBe(
+        "https://mangabuddy.com/search?q=shark&page=1&sort=updated",
+      );
+    });
+
+    it("leaves hidden genres out of filters and details", async () => {
+      await changeFormRow(await source.getSettingsForm(), "hidden_genres", [
+        "action",
+        "sports",
+      ]);
+
+      const filters = await source.getSearchFilters();
+      const genres = filters[0].type == "multiselect" ? filters[0].options : [];
+      const manga = await shark();
+
+      expect(genres.map((x) => x.id)).not.toContain("action");
+      expect(genres.length).toBeGreaterThan(0);
+      expect(manga.mangaInfo.tagGroups?.[0].tags.map((x) => x.id)).toEqual([
+        "martial-arts",
+      ]);
+    });
+
+    it("applies the request rate to the rate limiter", async () => {
+      app.setState(2, "requests_per_second");
+      source = new MangabuddyExtension();
+      await source.initialise();
+      expect(source.globalRateLimiter.options.numberOfRequests).toBe(2);
+
+      await changeFormRow(
+        await source.getSettingsForm(),
+        "requests_per_second",
+        ["10"],
+      );
+      expect(source.globalRateLimiter.options.numberOfRequests).toBe(10);
+      expect(app.getState("requests_per_second")).toBe(10);
+    });
+  });
+
+  describe("blocked genres", () => {
+    it("drops search results with a blocked genre", async () => {
+      source.blockedGenres.set(["smut"]);
+
+      const results = await source.getSearchResults(
+        { title: "shark", filters: [] },
+        undefined,
+      );
+
+      expect(results.items.map((x) => x.mangaId)).toEqual([
+        "shark",
+        "loan-shark-hunter",
+      ]);
+    });
+
+    it("checks home page cards against details seen before", async () => {
+      await shark();
+      await changeFormRow(await source.getSettingsForm(), "blocked_genres", [
+        "sports",
+      ]);
+
+      const results = await source.getDiscoverSectionItems(
+        await section("popular_section"),
+        undefined,
+      );
+
+      expect(results.items.map(mangaIdOf)).toEqual([
+        "the-beginning-after-the-end",
+      ]);
+    });
+
+    it("drops updated titles by their card genres", async () => {
+      source.blockedGenres.set(["Fantasy"]);
+
+      const results = await source.getDiscoverSectionItems(
+        await section("updated_section"),
+        undefined,
+      );
+
+      expect(results.items.map(mangaIdOf)).toEqual(["shark"]);
+    });
+
+    it("refuses the details of a blocked title", async () => {
+      source.blockedGenres.set(["sports"]);
+
+      await expect(shark()).rejects.toThrow(BlockedTitleError);
+    });
+  });
+});
@@ -0,0 +1,172 @@
+import { existsSync } from "node:fs";
+import { join } from "node:path";
+import {
+  Chapter,
+  ContentRating,
+  SourceInfo,
+  SourceManga,
+} from "@paperback/types";
+import { beforeAll, beforeEach, describe, expect, it } from "vitest";
+import { installApplication } from "./harness/application";
+import { FixtureServer } from "./harness/fixtures";
+import { mangaIdOf } from "./harness/items";
+import {
+  collectPages,
+  ContractSeed,
+  discoverSources,
+  loadContractSeed,
+  loadSourceFactory,
+  loadSourceInfo,
+  sourcesRoot,
+  SourceUnderTest,
+} from "./harness/sources";
+
+const expectHttps = (url: string | undefined, what: string) => {
+  expect(url, what).toBeTruthy();
+  const parsed = new URL(url as string);
+  expect(parsed.protocol, `${what}: ${url}`).toBe("https:");
+};
+
+const expectNoDuplicates = (ids: (string | undefined)[], what: string) => {
+  const duplicates = ids.filter((x, i) => x && ids.indexOf(x) != i);
+  expect(duplicates, `duplicate ${what}`).toEqual([]);
+};
+
+describe.each(discoverSources())("%s contract", (name) => {
+  let info: SourceInfo;
+  let create: () => SourceUnderTest;
+  let seed: ContractSeed;
+  let source: SourceUnderTest;
+
+  // Title-level checks run against the first result of the seed search
+  const firstSearchResult = async (): Promise<string> => {
+    const results = await source.getSearchResults(
+      { title: seed.search, filters: [] },
+      undefined,
+    );
+    expect(results.items.length, "seed search results").toBeGreaterThan(0);
+    return results.items[0].mangaId;
+  };
+
+  const loadTitle = async (): Promise<[SourceManga, Chapter[]]> => {
+    const manga = await source.getMangaDetails(await firstSearchResult());
+    return [manga, await source.getChapters(manga)];
+  };
+
+  beforeAll(async () => {
+    info = await loadSourceInfo(name);
+    create = await loadSourceFactory(name);
+    seed = loadContractSeed(name);
+  });
+
+  beforeEach(async () => {
+    installApplication(FixtureServer.forSource(name));
+    source = create();
+    await source.initialise();
+  });
+
+  describe("pbconfig.ts", () => {
+    it("declares a complete SourceInfo", () => {
+      expect(info.name).toBe(name);
+      expect(info.version).toMatch(/^\d+\.\d+\.\d+$/);
+      expect(info.description.trim()).not.toBe("");
+      expect(info.language).toMatch(/^[a-z]{2}$/);
+      expect(Object.values(ContentRating)).toContain(info.contentRating);
+      expect(info.developers.length).toBeGreaterThan(0);
+      expect(info.developers.every((x) => x.name.trim() != "")).toBe(true);
+    });
+
+    it("ships the icon it references", () => {
+      expect(existsSync(join(sourcesRoot, name, "static", info.icon))).toBe(
+        true,
+      );
+    });
+
+    it("uses hex colours for badges", () => {
+      for (const badge of info.badges) {
+        expect(badge.textColor).toMatch(/^#[0-9A-Fa-f]{6}$/);
+        expect(badge.backgroundColor).toMatch(/^#[0-9A-Fa-f]{6}$/);
+      }
+    });
+
+    it("declares at least one capability", () => {
+      const capabilities = Array.isArray(info.capabilities)
+        ? info.capabilities
+        : [info.capabilities];
+      expect(capabilities.length).toBeGreaterThan(0);
+    });
+  });
+
+  it("pages search results to the end without repeating titles", async () => {
+    const pages = await collectPages((metadata) =>
+      source.getSearchResults({ title: seed.search, filters: [] }, metadata),
+    );
+    const items = pages.flat();
+
+    expectNoDuplicates(
+      items.map((x) => x.mangaId),
+      "mangaId across search pages",
+    );
+    for (const item of items) {
+      expectHttps(item.imageUrl, `search imageUrl for ${item.mangaId}`);
+    }
+  });
+
+  it("pages every discover section to the end without repeating titles", async () => {
+    for (const section of await source.getDiscoverSections()) {
+      const pages = await collectPages((metadata) =>
+        source.getDiscoverSectionItems(section, metadata),
+      );
+      const items = pages.flat();
+
+      expectNoDuplicates(items.map(mangaIdOf), `mangaId in ${section.id}`);
+      for (const item of items) {
+        if (item.type == "genresCarouselItem") continue;
+        expectHttps(
+          item.imageUrl,
+          `${section.id} imageUrl for ${item.mangaId}`,
+        );
+      }
+    }
+  });
+
+  it("returns an absolute HTTPS thumbnail", async () => {
+    const [manga] = await loadTitle();
+    expectHttps(manga.mangaInfo.thumbnailUrl, "thumbnailUrl");
+  });
+
+  it("lists chapters newest first with unique IDs", async () => {
+    const [, chapters] = await loadTitle();
+
+    expect(chapters.length).toBeGreaterThan(0);
+    expectNoDuplicates(
+      chapters.map((x) => x.chapterId),
+      "chapterId",
+    );
+    for (let i = 1; i < chapters.length; i++) {
+      expect(
+        chapters[i - 1].chapNum,
+        `chapter ${chapters[i - 1].chapterId} before ${chapters[i].chapterId}`,
+      ).toBeGreaterThanOrEqual(chapters[i].chapNum);
+    }
+  });
+
+  it("returns absolute HTTPS page URLs", async () => {
+    const [, chapters] = await loadTitle();
+    const details = await source.getChapterDetails(chapters[0]);
+
+    expect(details.id).toBe(chapters[0].chapterId);
+    expect(details.pages.length).toBeGreaterThan(0);
+    for (const page of details.pages) {
+      expectHttps(page, "page URL");
+    }
+  });
+
+  it("builds a share URL the manga ID can be recovered from", async () => {
+    const mangaId = await firstSearchResult();
+    const shareUrl = source.getMangaShareUrl(mangaId);
+
+    expectHttps(shareUrl, "share URL");
+    expect(new URL(shareUrl).pathname.split("/")).toContain(mangaId);
+  });
+});
@@ -0,0 +1,154 @@
+import { Request, Response } from "@paperback/types";
+import { FixtureServer } from "./fixtures";
+
+type RequestInterceptor = (request: Request) => Promise<Request>;
+type ResponseInterceptor = (
+  request: Request,
+  response: Response,
+  data: ArrayBuffer,
+) => Promise<ArrayBuffer>;
+
+interface RegisteredInterceptor {
+  id: string;
+  interceptRequest: RequestInterceptor;
+  interceptResponse: ResponseInterceptor;
+}
+
+/**
+ * Node-side stand-in for the `Application` global the Paperback app injects.
+ *
+ * Requests are routed through every registered interceptor, in registration
+ * order, and then answered by the attached {@link FixtureServer}. State and
+ * secure state live in plain maps so a test can inspect or pre-seed them.
+ */
+export class MockApplication {
+  readonly isResourceLimited = false;
+  readonly state = new Map<string, unknown>();
+  readonly secureState = new Map<string, unknown>();
+  readonly requests: Request[] = [];
+  userAgent = "Mozilla/5.0 (PaperbackTest)";
+
+  private interceptors: RegisteredInterceptor[] = [];
+
+  constructor(public server: FixtureServer = new FixtureServer()) {}
+
+  // Selectors
+
+  Selector<T, K>(obj: T, key: keyof T): K {
+    const member = obj[key];
+    if (typeof member !== "function") {
+      throw new Error(`Selector target "${String(key)}" is not a function`);
+    }
+    return (member as (...args: unknown[]) => unknown).bind(obj) as K;
+  }
+
+  // Request manager
+
+  registerInterceptor(
+    interceptorId: string,
+    interceptRequest: RequestInterceptor,
+    interceptResponse: ResponseInterceptor,
+  ): void {
+    this.unregisterInterceptor(interceptorId);
+    this.interceptors.push({
+      id: interceptorId,
+      interceptRequest,
+      interceptResponse,
+    });
+  }
+
+  unregisterInterceptor(interceptorId: string): void {
+    this.interceptors = this.interceptors.filter((x) => x.id != interceptorId);
+  }
+
+  registeredInterceptors(): string[] {
+    return this.interceptors.map((x) => x.id);
+  }
+
+  async getDefaultUserAgent(): Promise<string> {
+    return this.userAgent;
+  }
+
+  async scheduleRequest(request: Request): Promise<[Response, ArrayBuffer]> {
+    let intercepted: Request = { ...request, headers: { ...request.headers } };
+    for (const interceptor of this.interceptors) {
+      intercepted = await interceptor.interceptRequest(intercepted);
+    }
+
+    this.requests.push(intercepted);
+    const [response, body] = await this.server.respond(intercepted);
+
+    let data = body;
+    for (const interceptor of this.interceptors) {
+      data = await interceptor.interceptResponse(intercepted, response, data);
+    }
+
+    return [response, data];
+  }
+
+  // Raw data
+
+  arrayBufferToUTF8String(arrayBuffer: ArrayBuffer): string {
+    return new TextDecoder("utf-8").decode(arrayBuffer);
+  }
+
+  arrayBufferToASCIIString(arrayBuffer: ArrayBuffer): string {
+    return new TextDecoder("ascii").decode(arrayBuffer);
+  }
+
+  arrayBufferToUTF16String(arrayBuffer: ArrayBuffer): string {
+    return new TextDecoder("utf-16").decode(arrayBuffer);
+  }
+
+  decodeHTMLEntities(str: string): string {
+    return str
+      .replace(/&#(\d+);/g, (_, code: string) =>
+        String.fromCharCode(Number(code)),
+      )
+      .replace(/&quot;/g, '"')
+      .replace(/&#39;|&apos;/g, "'")
+      .replace(/&lt;/g, "<")
+      .replace(/&gt;/g, ">")
+      .replace(/&amp;/g, "&");
+  }
+
+  async sleep(seconds: number): Promise<void> {
+    // Tests never wait on the rate limiter
+    void seconds;
+  }
+
+  // State manager
+
+  getState(key: string): unknown {
+    return this.state.get(key);
+  }
+
+  setState(value: unknown, key: string): void {
+    this.state.set(key, value);
+  }
+
+  getSecureState(key: string): unknown {
+    return this.secureState.get(key);
+  }
+
+  setSecureState(value: unknown, key: string): void {
+    this.secureState.set(key, value);
+  }
+
+  resetAllState(): void {
+    this.state.clear();
+  }
+}
+
+/**
+ * Replaces the `Application` global with a fresh {@link MockApplication} and
+ * returns it. Call this before constructing an extension, since interceptors
+ * such as `CookieStorageInterceptor` read state in their constructor.
+ */
+export function installApplication(
+  server: FixtureServer = new FixtureServer(),
+): MockApplication {
+  const app = new MockApplication(server);
+  (globalThis as unknown as { Application: MockApplication }).Application = app;
+  return app;
+}
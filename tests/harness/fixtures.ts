@@ -0,0 +1,124 @@
+import { existsSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { Cookie, Request, Response } from "@paperback/types";
+
+export const fixturesRoot = fileURLToPath(
+  new URL("../fixtures", import.meta.url),
+);
+
+export interface FixtureResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  cookies?: Cookie[];
+  /** Inline response body */
+  body?: string;
+  /** File name, relative to the server's fixture directory */
+  file?: string;
+}
+
+type FixtureHandler = (request: Request) => FixtureResponse | string;
+type RouteTarget = FixtureResponse | FixtureHandler | string;
+
+interface Route {
+  method?: string;
+  matches: (url: string) => boolean;
+  target: RouteTarget;
+}
+
+/**
+ * Normalises a URL so that routes match regardless of query parameter order.
+ */
+export function normaliseUrl(url: string): string {
+  const parsed = new URL(url);
+  parsed.searchParams.sort();
+  return parsed.toString();
+}
+
+/**
+ * Serves saved HTML/JSON fixtures for the URLs a source requests.
+ *
+ * A route's target is either a fixture file name, a {@link FixtureResponse}
+ * or a handler computing one of those from the request. Requests without a
+ * matching route throw, so a test never silently parses an empty page.
+ */
+export class FixtureServer {
+  private routes: Route[] = [];
+
+  constructor(readonly directory?: string) {}
+
+  /**
+   * Creates a server for `tests/fixtures/<source>`, pre-loaded with the
+   * routes listed in that directory's `routes.json` when it has one.
+   */
+  static forSource(source: string): FixtureServer {
+    const directory = join(fixturesRoot, source);
+    const server = new FixtureServer(directory);
+    const routesFile = join(directory, "routes.json");
+
+    if (existsSync(routesFile)) {
+      const routes = JSON.parse(readFileSync(routesFile, "utf-8")) as Record<
+        string,
+        FixtureResponse | string
+      >;
+      for (const [url, target] of Object.entries(routes)) {
+        server.on(url, target);
+      }
+    }
+
+    return server;
+  }
+
+  static hasFixtures(source: string): boolean {
+    return existsSync(join(fixturesRoot, source, "routes.json"));
+  }
+
+  /**
+   * Registers a route. Later registrations take precedence, so a test can
+   * override a route loaded from `routes.json`.
+   */
+  on(url: string | RegExp, target: RouteTarget, method?: string): this {
+    const matches =
+      typeof url === "string"
+        ? (candidate: string) => candidate == normaliseUrl(url)
+        : (candidate: string) => url.test(candidate);
+
+    this.routes.unshift({ method, matches, target });
+    return this;
+  }
+
+  async respond(request: Request): Promise<[Response, ArrayBuffer]> {
+    const url = normaliseUrl(request.url);
+    const route = this.routes.find(
+      (x) =>
+        (!x.method || x.method.toUpperCase() == request.method.toUpperCase()) &&
+        x.matches(url),
+    );
+
+    if (!route) {
+      throw new Error(`No fixture for ${request.method} ${request.url}`);
+    }
+
+    const resolved =
+      typeof route.target === "function" ? route.target(request) : route.target;
+    const fixture: FixtureResponse =
+      typeof resolved === "string" ? { file: resolved } : resolved;
+
+    const body = fixture.file ? this.read(fixture.file) : (fixture.body ?? "");
+    const response: Response = {
+      url: request.url,
+      status: fixture.status ?? 200,
+      headers: fixture.headers ?? {},
+      cookies: fixture.cookies ?? [],
+    };
+
+    return [response, new TextEncoder().encode(body).buffer as ArrayBuffer];
+  }
+
+  read(file: string): string {
+    if (!this.directory) {
+      throw new Error(`Fixture "${file}" requested without a directory`);
+    }
+    return readFileSync(join(this.directory, file), "utf-8");
+  }
+}
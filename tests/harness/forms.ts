@@ -0,0 +1,46 @@
+import { Form } from "@paperback/types";
+
+type FormRow = Application.FormItemElement<unknown> & {
+  value?: unknown;
+  onValueChange?: SelectorID<(value: never) => Promise<void>>;
+  onSelect?: SelectorID<() => Promise<void>>;
+  form?: Form;
+};
+
+/** Finds a row by id across every section of a settings form. */
+export function formRow(form: Form, id: string): FormRow {
+  for (const section of form.getSections()) {
+    const row = section.items.find((x) => x.id == id);
+    if (row) return row;
+  }
+  throw new Error(`Missing form row ${id}`);
+}
+
+/** Changes a row's value the way the app does, through its selector. */
+export async function changeFormRow<T>(
+  form: Form,
+  id: string,
+  value: T,
+): Promise<void> {
+  const handler = formRow(form, id).onValueChange;
+  if (typeof handler !== "function") {
+    throw new Error(`Form row ${id} has no value change handler`);
+  }
+  await (handler as (value: T) => Promise<void>)(value);
+}
+
+/** Taps a button row the way the app does, through its selector. */
+export async function selectFormRow(form: Form, id: string): Promise<void> {
+  const handler = formRow(form, id).onSelect;
+  if (typeof handler !== "function") {
+    throw new Error(`Form row ${id} has no select handler`);
+  }
+  await handler();
+}
+
+/** Opens the page a navigation row leads to. */
+export function navigateFormRow(form: Form, id: string): Form {
+  const page = formRow(form, id).form;
+  if (!page) throw new Error(`Form row ${id} does not lead to a page`);
+  return page;
+}
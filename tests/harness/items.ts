@@ -0,0 +1,6 @@
+import { DiscoverSectionItem } from "@paperback/types";
+
+/** Genre carousel items point at a search, every other item at a title. */
+export function mangaIdOf(item: DiscoverSectionItem): string | undefined {
+  return item.type == "genresCarouselItem" ? undefined : item.mangaId;
+}
@@ -0,0 +1,5 @@
+import { installApplication } from "./application";
+
+// Sources construct their interceptors at import time, which already touches
+// the `Application` global, so a default one has to exist before any import.
+installApplication();
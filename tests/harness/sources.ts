@@ -0,0 +1,117 @@
+import { existsSync, readdirSync, readFileSync } from "node:fs";
+import { join } from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  ChapterProviding,
+  DiscoverSectionProviding,
+  Extension,
+  PagedResults,
+  SearchResultsProviding,
+  SourceInfo,
+} from "@paperback/types";
+import { fixturesRoot } from "./fixtures";
+
+export const sourcesRoot = fileURLToPath(new URL("../../src", import.meta.url));
+
+export type SourceUnderTest = Extension &
+  SearchResultsProviding &
+  ChapterProviding &
+  DiscoverSectionProviding & {
+    getMangaShareUrl(mangaId: string): string;
+  };
+
+/**
+ * Per-source inputs for the contract suite, read from
+ * `tests/fixtures/<source>/contract.json`.
+ */
+export interface ContractSeed {
+  /** Search title whose first result is used for the title-level checks */
+  search: string;
+}
+
+/**
+ * Every directory under `src/` holding a `pbconfig.ts` is a source.
+ */
+export function discoverSources(): string[] {
+  return readdirSync(sourcesRoot, { withFileTypes: true })
+    .filter((x) => x.isDirectory())
+    .filter((x) => existsSync(join(sourcesRoot, x.name, "pbconfig.ts")))
+    .map((x) => x.name)
+    .sort();
+}
+
+export async function loadSourceInfo(source: string): Promise<SourceInfo> {
+  const module = (await import(`../../src/${source}/pbconfig.ts`)) as {
+    default: SourceInfo;
+  };
+  return module.default;
+}
+
+/**
+ * Returns a factory for fresh instances of the extension a source's
+ * `main.ts` exports, so each test starts without cached state.
+ */
+export async function loadSourceFactory(
+  source: string,
+): Promise<() => SourceUnderTest> {
+  const module = (await import(`../../src/${source}/main.ts`)) as Record<
+    string,
+    unknown
+  >;
+  const instance = Object.values(module).find(
+    (x): x is SourceUnderTest =>
+      typeof x === "object" &&
+      x !== null &&
+      typeof (x as Partial<Extension>).initialise === "function",
+  );
+
+  if (!instance) {
+    throw new Error(`src/${source}/main.ts does not export an extension`);
+  }
+
+  const constructor = instance.constructor as new () => SourceUnderTest;
+  return () => new constructor();
+}
+
+export function loadContractSeed(source: string): ContractSeed {
+  const file = join(fixturesRoot, source, "contract.json");
+  if (!existsSync(file)) {
+    throw new Error(
+      `Missing tests/fixtures/${source}/contract.json for the contract suite`,
+    );
+  }
+  return JSON.parse(readFileSync(file, "utf-8")) as ContractSeed;
+}
+
+/**
+ * Follows `metadata` until a source signals the last page, failing when it
+ * keeps paging past `maxPages` or hands back metadata it already returned.
+ */
+export async function collectPages<T>(
+  fetchPage: (metadata: unknown) => Promise<PagedResults<T>>,
+  maxPages = 10,
+): Promise<T[][]> {
+  const pages: T[][] = [];
+  const seen = new Set<string>();
+  let metadata: unknown = undefined;
+
+  do {
+    if (pages.length >= maxPages) {
+      throw new Error(`Pagination did not terminate after ${maxPages} pages`);
+    }
+
+    const results = await fetchPage(metadata);
+    pages.push(results.items);
+    metadata = results.metadata;
+
+    if (metadata !== undefined) {
+      const key = JSON.stringify(metadata);
+      if (seen.has(key)) {
+        throw new Error(`Pagination repeated metadata ${key}`);
+      }
+      seen.add(key);
+    }
+  } while (metadata !== undefined);
+
+  return pages;
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import {
+  numberChapters,
+  parseChapterLabel,
+} from "../../src/utils/chapter-parser";
+
+// Labels are listed newest first, like the sites show them
+const numbers = (...labels: string[]) =>
+  numberChapters(labels.map(parseChapterLabel));
+
+describe("parseChapterLabel", () => {
+  it.each([
+    ["Chapter 145", { number: 145, title: "Chapter 145" }],
+    ["Ch. 12.5", { number: 12.5, title: "Chapter 12.5" }],
+    [
+      "Chapter 79 - Running Away",
+      { number: 79, title: "Chapter 79 - Running Away" },
+    ],
+    ["Vol.1 Chapter 63", { number: 63, volume: 1, title: "Chapter 63" }],
+    [
+      "Season 2 Episode 5: Home",
+      { number: 5, season: 2, title: "Season 2 Chapter 5 - Home" },
+    ],
+    ["S3 Ch 1", { number: 1, season: 3, title: "Season 3 Chapter 1" }],
+    ["Chapter 0 - Prologue", { number: 0, title: "Chapter 0 - Prologue" }],
+    ["79 - Running Away", { number: 79, title: "Chapter 79 - Running Away" }],
+  ])("parses %s", (label, expected) => {
+    expect(parseChapterLabel(label)).toEqual({
+      volume: undefined,
+      season: undefined,
+      ...expected,
+    });
+  });
+
+  it.each([
+    ["vol-1-chapter-63", { number: 63, volume: 1, title: "Chapter 63" }],
+    [
+      "chapter-79-running-away",
+      { number: 79, title: "Chapter 79 - running away" },
+    ],
+    ["prologue", { title: "Prologue" }],
+  ])("parses the URL slug %s", (slug, expected) => {
+    expect(parseChapterLabel(slug)).toEqual({
+      volume: undefined,
+      season: undefined,
+      ...expected,
+    });
+  });
+
+  it.each(["Prologue", "Side Story 3", "Extra", "Epilogue", "Special Episode"])(
+    "leaves %s without a number",
+    (label) => {
+      const parsed = parseChapterLabel(label);
+      expect(parsed.number).toBeUndefined();
+      expect(parsed.title).toBe(label);
+    },
+  );
+});
+
+describe("numberChapters", () => {
+  it("keeps printed numbers", () => {
+    expect(
+      numbers("Chapter 3", "Chapter 2.5", "Chapter 2", "Chapter 0"),
+    ).toEqual([3, 2.5, 2, 0]);
+  });
+
+  it("numbers specials after the chapter before them", () => {
+    expect(
+      numbers(
+        "Epilogue",
+        "Chapter 50",
+        "Side Story 2",
+        "Side Story 1",
+        "Chapter 49",
+        "Prologue",
+      ),
+    ).toEqual([50.01, 50, 49.02, 49.01, 49, 0]);
+  });
+
+  it("continues numbering for seasons that restart at one", () => {
+    expect(
+      numbers(
+        "Season 2 Chapter 2",
+        "Season 2 Chapter 1",
+        "Epilogue",
+        "Chapter 40",
+        "Chapter 39",
+      ),
+    ).toEqual([42, 41, 40.01, 40, 39]);
+  });
+
+  it("leaves seasons that keep counting alone", () => {
+    expect(
+      numbers("Season 2 Chapter 41", "Season 1 Chapter 40", "Chapter 39"),
+    ).toEqual([41, 40, 39]);
+  });
+
+  it("does not renumber older entries when chapters are released", () => {
+    const before = numbers("Extra", "Chapter 10", "Prologue");
+    const after = numbers("Chapter 11", "Extra", "Chapter 10", "Prologue");
+
+    expect(after.slice(1)).toEqual(before);
+  });
+});
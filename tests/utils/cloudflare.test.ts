@@ -0,0 +1,163 @@
+import { CloudflareError, Request, Response } from "@paperback/types";
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  checkForChallenge,
+  checkInterceptedResponse,
+  detectChallenge,
+} from "../../src/utils/cloudflare";
+import { installApplication } from "../harness/application";
+
+const request: Request = { url: "https://example.com/page/2", method: "GET" };
+
+const response = (
+  status: number,
+  headers: Record<string, string> = {},
+  url = request.url,
+): Response => ({ url, status, headers, cookies: [] });
+
+const thrown = (run: () => void): unknown => {
+  try {
+    run();
+  } catch (error) {
+    return error;
+  }
+  return undefined;
+};
+
+describe("detectChallenge", () => {
+  it("recognises the Cloudflare mitigation header", () => {
+    expect(
+      detectChallenge(response(200, { "CF-Mitigated": "challenge" })),
+    ).toBe("cloudflare");
+  });
+
+  it.each([
+    "<html><head><title>Just a moment...</title></head></html>",
+    "<script>window._cf_chl_opt = { cvId: '3' };</script>",
+  ])("recognises a Cloudflare challenge served with 200: %s", (body) => {
+    expect(detectChallenge(response(200), body)).toBe("cloudflare");
+  });
+
+  it.each([
+    '<script src="/cdn-cgi/challenge-platform/scripts/jsd/main.js"></script>',
+    '<script src="https://challenges.cloudflare.com/turnstile/v0/api.js"></script>',
+  ])("leaves normal pages with Cloudflare scripts alone: %s", (script) => {
+    const body = `<html><head><title>Solo Leveling</title></head><body><form>${script}</form></body></html>`;
+    expect(detectChallenge(response(200), body)).toBe(undefined);
+  });
+
+  it("recognises DDoS-Guard interstitials", () => {
+    expect(
+      detectChallenge(
+        response(200),
+        '<title>DDoS-Guard</title><script src="https://check.ddos-guard.net/check.js"></script>',
+      ),
+    ).toBe("ddos-guard");
+    expect(detectChallenge(response(403, { server: "ddos-guard" }))).toBe(
+      "ddos-guard",
+    );
+  });
+
+  it("does not take an error proxied by Cloudflare for a challenge", () => {
+    expect(detectChallenge(response(503, { Server: "cloudflare" }))).toBe(
+      undefined,
+    );
+    expect(
+      detectChallenge(
+        response(403, {
+          server: "cloudflare",
+          "cf-ray": "8c1f2a3b4d5e6f70-AMS",
+        }),
+        "<title>403 Forbidden</title>",
+      ),
+    ).toBe(undefined);
+    expect(
+      detectChallenge(
+        response(403, { server: "cloudflare", "cf-mitigated": "challenge" }),
+      ),
+    ).toBe("cloudflare");
+  });
+
+  it("leaves ordinary pages and errors alone", () => {
+    expect(
+      detectChallenge(response(200), "<title>Shark - Mangabuddy</title>"),
+    ).toBe(undefined);
+    expect(detectChallenge(response(403))).toBe(undefined);
+    expect(detectChallenge(response(404, { server: "cloudflare" }))).toBe(
+      undefined,
+    );
+  });
+});
+
+describe("checkForChallenge", () => {
+  it("sends the bypass to the host that served the challenge", () => {
+    const error = thrown(() =>
+      checkForChallenge(
+        request,
+        response(
+          200,
+          { "cf-mitigated": "challenge" },
+          "http://cdn.example.net/covers/a.webp",
+        ),
+      ),
+    );
+
+    expect(error).toBeInstanceOf(CloudflareError);
+    expect((error as CloudflareError).resolutionRequest).toEqual({
+      url: "https://cdn.example.net",
+      method: "GET",
+    });
+  });
+
+  it("only treats bare blocked statuses as a challenge when asked to", () => {
+    expect(thrown(() => checkForChallenge(request, response(403)))).toBe(
+      undefined,
+    );
+    expect(
+      thrown(() =>
+        checkForChallenge(request, response(503), "", { blockedStatus: true }),
+      ),
+    ).toBeInstanceOf(CloudflareError);
+  });
+
+  it("names DDoS-Guard in the message", () => {
+    const error = thrown(() =>
+      checkForChallenge(request, response(403, { server: "ddos-guard" })),
+    );
+
+    expect((error as Error).message).toBe("DDoS-Guard bypass is required");
+  });
+});
+
+describe("checkInterceptedResponse", () => {
+  const body = (html: string): ArrayBuffer =>
+    new TextEncoder().encode(html).buffer as ArrayBuffer;
+
+  beforeEach(() => {
+    installApplication();
+  });
+
+  it("reads HTML bodies", () => {
+    expect(
+      thrown(() =>
+        checkInterceptedResponse(
+          request,
+          response(200, { "content-type": "text/html; charset=UTF-8" }),
+          body("<title>Just a moment...</title>"),
+        ),
+      ),
+    ).toBeInstanceOf(CloudflareError);
+  });
+
+  it("does not decode images", () => {
+    expect(
+      thrown(() =>
+        checkInterceptedResponse(
+          request,
+          response(200, { "content-type": "image/webp" }),
+          body("__cf_chl_ happens to be in these bytes"),
+        ),
+      ),
+    ).toBe(undefined);
+  });
+});
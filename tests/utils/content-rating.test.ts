@@ -0,0 +1,30 @@
+import { ContentRating } from "@paperback/types";
+import { describe, expect, it } from "vitest";
+import { ContentRatingClassifier } from "../../src/utils/content-rating";
+
+describe("ContentRatingClassifier", () => {
+  const classifier = new ContentRatingClassifier();
+
+  it.each([
+    [["Action", "Fantasy"], ContentRating.EVERYONE],
+    [[], ContentRating.EVERYONE],
+    [["Romance", "Ecchi"], ContentRating.MATURE],
+    [["Mature", "Yaoi"], ContentRating.MATURE],
+    [["Ecchi", "Smut"], ContentRating.ADULT],
+    [["HENTAI"], ContentRating.ADULT],
+    [["adult"], ContentRating.ADULT],
+  ])("rates %j as %s", (genres, expected) => {
+    expect(classifier.classify(genres)).toBe(expected);
+  });
+
+  it("applies source overrides to names and slugs", () => {
+    const overridden = new ContentRatingClassifier({
+      "Soft Yaoi": ContentRating.MATURE,
+      mature: ContentRating.ADULT,
+    });
+
+    expect(overridden.classify(["soft-yaoi"])).toBe(ContentRating.MATURE);
+    expect(overridden.classify(["Mature"])).toBe(ContentRating.ADULT);
+    expect(overridden.classify(["Ecchi"])).toBe(ContentRating.MATURE);
+  });
+});
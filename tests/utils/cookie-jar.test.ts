@@ -0,0 +1,124 @@
+import { Cookie, Request, Response } from "@paperback/types";
+import { beforeEach, describe, expect, it } from "vitest";
+import { CookieJar } from "../../src/utils/cookie-jar";
+import { installApplication, MockApplication } from "../harness/application";
+
+const inDays = (days: number): Date =>
+  new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+
+const cookie = (
+  name: string,
+  domain: string,
+  extra: Partial<Cookie> = {},
+): Cookie => ({ name, value: `${name}-value`, domain, ...extra });
+
+describe("CookieJar", () => {
+  let app: MockApplication;
+  let jar: CookieJar;
+
+  const sent = async (url: string): Promise<Record<string, string>> => {
+    const request = await jar.interceptRequest({ url, method: "GET" });
+    return request.cookies ?? {};
+  };
+
+  beforeEach(() => {
+    app = installApplication();
+    jar = new CookieJar();
+  });
+
+  it("sends cookies to their domain and its subdomains only", async () => {
+    jar.setCookie(cookie("cf_clearance", ".mangabuddy.com"));
+    jar.setCookie(cookie("cdn", "thumb.youmadcdn.xyz"));
+
+    expect(await sent("https://mangabuddy.com/home")).toEqual({
+      cf_clearance: "cf_clearance-value",
+    });
+    expect(await sent("https://www.mangabuddy.com/")).toEqual({
+      cf_clearance: "cf_clearance-value",
+    });
+    expect(await sent("https://thumb.youmadcdn.xyz/a.png")).toEqual({
+      cdn: "cdn-value",
+    });
+    expect(await sent("https://notmangabuddy.com/")).toEqual({});
+  });
+
+  it("matches paths and prefers the most specific one", async () => {
+    jar.setCookie(cookie("token", "kaynscan.com", { path: "/" }));
+    jar.setCookie(
+      cookie("token", "kaynscan.com", { path: "/chapter", value: "chapter" }),
+    );
+    jar.setCookie(cookie("series", "kaynscan.com", { path: "/series" }));
+
+    expect(await sent("https://kaynscan.com/chapter/1-2/")).toEqual({
+      token: "chapter",
+    });
+    expect(await sent("https://kaynscan.com/chapters")).toEqual({
+      token: "token-value",
+    });
+  });
+
+  it("keeps cookies a request sets itself", async () => {
+    jar.setCookie(cookie("lang", "mangabuddy.com"));
+
+    const request = await jar.interceptRequest({
+      url: "https://mangabuddy.com/",
+      method: "GET",
+      cookies: { lang: "fr" },
+    });
+
+    expect(request.cookies).toEqual({ lang: "fr" });
+  });
+
+  it("drops cookies once they expire", () => {
+    jar.setCookie(cookie("fresh", "mangabuddy.com", { expires: inDays(1) }));
+    jar.setCookie(cookie("stale", "mangabuddy.com", { expires: inDays(1) }));
+    jar.setCookie(cookie("stale", "mangabuddy.com", { expires: inDays(-1) }));
+
+    expect(jar.cookies.map((x) => x.name)).toEqual(["fresh"]);
+  });
+
+  it("persists cookies in state, expiry included", () => {
+    const expires = inDays(3);
+    jar.setCookie(cookie("cf_clearance", "mangabuddy.com", { expires }));
+    jar.setCookie(cookie("session", "mangabuddy.com"));
+
+    const reloaded = new CookieJar();
+
+    expect(reloaded.cookies).toEqual([
+      cookie("cf_clearance", "mangabuddy.com", { expires }),
+      cookie("session", "mangabuddy.com"),
+    ]);
+    expect(app.getState("cookie_jar")).toHaveLength(2);
+  });
+
+  it("stores cookies from responses and deletes ones the site expires", async () => {
+    const request: Request = {
+      url: "https://kaynscan.com/login",
+      method: "POST",
+    };
+    const response = (cookies: Cookie[]): Response => ({
+      url: request.url,
+      status: 200,
+      headers: {},
+      cookies,
+    });
+
+    await jar.interceptResponse(
+      request,
+      response([{ name: "kaynscan_session", value: "abc", domain: "" }]),
+      new ArrayBuffer(0),
+    );
+    expect(jar.cookies).toEqual([
+      { name: "kaynscan_session", value: "abc", domain: "kaynscan.com" },
+    ]);
+
+    await jar.interceptResponse(
+      request,
+      response([
+        cookie("kaynscan_session", "kaynscan.com", { expires: inDays(-1) }),
+      ]),
+      new ArrayBuffer(0),
+    );
+    expect(jar.cookies).toEqual([]);
+  });
+});
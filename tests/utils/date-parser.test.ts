@@ -0,0 +1,57 @@
+import { describe, expect, it } from "vitest";
+import { parseDate } from "../../src/utils/date-parser";
+
+const now = new Date("2025-03-31T12:00:00Z");
+const parse = (text: string) => parseDate(text, now)?.toISOString();
+
+describe("parseDate", () => {
+  it.each([
+    ["just now", "2025-03-31T12:00:00.000Z"],
+    ["Today", "2025-03-31T12:00:00.000Z"],
+    ["yesterday", "2025-03-30T12:00:00.000Z"],
+    ["30 seconds ago", "2025-03-31T11:59:30.000Z"],
+    ["a minute ago", "2025-03-31T11:59:00.000Z"],
+    ["5 mins ago", "2025-03-31T11:55:00.000Z"],
+    ["an hour ago", "2025-03-31T11:00:00.000Z"],
+    ["9 hours ago", "2025-03-31T03:00:00.000Z"],
+    ["2 days ago", "2025-03-29T12:00:00.000Z"],
+    ["3d ago", "2025-03-28T12:00:00.000Z"],
+    ["1 week ago", "2025-03-24T12:00:00.000Z"],
+    ["2 weeks ago", "2025-03-17T12:00:00.000Z"],
+  ])("parses relative %s", (text, expected) => {
+    expect(parse(text)).toBe(expected);
+  });
+
+  it.each([
+    ["in 3 days", "2025-04-03T12:00:00.000Z"],
+    ["in a week", "2025-04-07T12:00:00.000Z"],
+    ["in 2 hrs", "2025-03-31T14:00:00.000Z"],
+  ])("parses future %s", (text, expected) => {
+    expect(parse(text)).toBe(expected);
+  });
+
+  it("moves months and years by calendar", () => {
+    expect(parse("a month ago")).toBe("2025-02-28T12:00:00.000Z");
+    expect(parse("13 months ago")).toBe("2024-02-29T12:00:00.000Z");
+    expect(parse("1 year ago")).toBe("2024-03-31T12:00:00.000Z");
+    expect(parse("in a month")).toBe("2025-04-30T12:00:00.000Z");
+  });
+
+  it.each([
+    ["Oct 05, 2025", "2025-10-05T00:00:00.000Z"],
+    ["October 5 2025", "2025-10-05T00:00:00.000Z"],
+    ["Sept. 28, 2025", "2025-09-28T00:00:00.000Z"],
+    ["5 October 2025", "2025-10-05T00:00:00.000Z"],
+    ["2025-10-05", "2025-10-05T00:00:00.000Z"],
+    ["2025-10-05T08:30:00Z", "2025-10-05T08:30:00.000Z"],
+  ])("parses absolute %s", (text, expected) => {
+    expect(parse(text)).toBe(expected);
+  });
+
+  it.each(["", "soon", "Feb 30, 2025", "5 fortnights ago"])(
+    "returns undefined for %j",
+    (text) => {
+      expect(parseDate(text, now)).toBeUndefined();
+    },
+  );
+});
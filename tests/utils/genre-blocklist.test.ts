@@ -0,0 +1,91 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  BlockedTitleError,
+  GenreBlocklist,
+} from "../../src/utils/genre-blocklist";
+import { installApplication, MockApplication } from "../harness/application";
+
+describe("GenreBlocklist", () => {
+  let app: MockApplication;
+  let blocklist: GenreBlocklist;
+
+  beforeEach(() => {
+    app = installApplication();
+    blocklist = new GenreBlocklist();
+  });
+
+  it("blocks nothing until genres are listed", () => {
+    blocklist.remember("shark", ["Smut"]);
+
+    expect(blocklist.isBlocked("shark", ["Smut"])).toBe(false);
+    expect(blocklist.isBlocked("shark")).toBe(false);
+  });
+
+  it("matches card genres by name or slug", () => {
+    blocklist.set(["martial-arts"]);
+
+    expect(blocklist.isBlocked("a", ["Action", "Martial Arts"])).toBe(true);
+    expect(blocklist.isBlocked("b", ["Action"])).toBe(false);
+    expect(app.getState("blocked_genres")).toEqual(["martial-arts"]);
+  });
+
+  it("falls back to remembered details when cards list no genres", () => {
+    blocklist.set(["Smut"]);
+    blocklist.remember("shark-heaven", ["Romance", "Smut"]);
+
+    expect(blocklist.isBlocked("shark-heaven")).toBe(true);
+    expect(blocklist.isBlocked("shark-heaven", ["Romance"])).toBe(false);
+    expect(blocklist.isBlocked("unknown")).toBe(false);
+  });
+
+  it("forgets the oldest titles once the cache is full", () => {
+    blocklist.set(["Smut"]);
+    blocklist.remember("first", ["Smut"]);
+    for (let i = 0; i < 1000; i++) {
+      blocklist.remember(`title-${i}`, ["Action"]);
+    }
+
+    expect(blocklist.isBlocked("first")).toBe(false);
+    expect(Object.keys(app.getState("genre_cache") as object)).toHaveLength(
+      1000,
+    );
+  });
+
+  it("reads the remembered details once per listing", () => {
+    blocklist.set(["Smut"]);
+    blocklist.remember("shark-heaven", ["Smut"]);
+    const getState = vi.spyOn(app, "getState");
+
+    const isBlocked = blocklist.forListing();
+    const blocked = ["shark", "shark-heaven", "unknown"].filter((x) =>
+      isBlocked(x),
+    );
+
+    expect(blocked).toEqual(["shark-heaven"]);
+    expect(getState.mock.calls.map(([key]) => key)).toEqual([
+      "blocked_genres",
+      "genre_cache",
+    ]);
+  });
+
+  it("only writes the cache when a title's genres change", () => {
+    blocklist.remember("shark", ["Action"]);
+    const setState = vi.spyOn(app, "setState");
+
+    blocklist.remember("shark", ["Action"]);
+    expect(setState).not.toHaveBeenCalled();
+
+    blocklist.remember("shark", ["Action", "Sports"]);
+    expect(setState).toHaveBeenCalledOnce();
+  });
+
+  it("refuses the details of a blocked title", () => {
+    blocklist.set(["smut"]);
+
+    expect(() => blocklist.checkDetails("shark", ["Action"])).not.toThrow();
+    expect(() =>
+      blocklist.checkDetails("shark-heaven", ["Romance", "Smut"]),
+    ).toThrow(new BlockedTitleError("shark-heaven", ["Smut"]));
+    expect(blocklist.isBlocked("shark-heaven")).toBe(true);
+  });
+});
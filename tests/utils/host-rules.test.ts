@@ -0,0 +1,254 @@
+import { beforeEach, describe, expect, it } from "vitest";
+import {
+  HostRulesInterceptor,
+  RedirectBlockedError,
+} from "../../src/utils/host-rules";
+import {
+  DomainMove,
+  RedirectFailedError,
+  SiteMovedError,
+  TooManyRedirectsError,
+} from "../../src/utils/redirects";
+import { installApplication, MockApplication } from "../harness/application";
+import { FixtureServer } from "../harness/fixtures";
+
+describe("HostRulesInterceptor", () => {
+  let app: MockApplication;
+  let moves: DomainMove[];
+
+  const get = (url: string, headers?: Record<string, string>) =>
+    Application.scheduleRequest({ url, method: "GET", headers });
+
+  beforeEach(() => {
+    app = installApplication(new FixtureServer());
+    moves = [];
+    new HostRulesInterceptor(
+      "main",
+      [
+        {
+          hosts: ["*.example.com"],
+          headers: { referer: "https://example.com/" },
+          upgradeHttps: true,
+          allowedRedirects: ["mirror.example.org"],
+        },
+        {
+          hosts: ["cdn.example.net"],
+          headers: { referer: "https://example.com/", accept: "image/*" },
+        },
+      ],
+      { onDomainMove: (move) => moves.push(move) },
+    ).registerInterceptor();
+    app.server.on(/./, { body: "ok" });
+  });
+
+  it("adds each host's headers and the app user agent", async () => {
+    await get("https://example.com/page");
+    await get("https://www.example.com/page");
+    await get("https://cdn.example.net/a.webp");
+    await get("https://elsewhere.io/");
+
+    expect(app.requests.map((x) => x.headers)).toEqual([
+      { "user-agent": app.userAgent, referer: "https://example.com/" },
+      { "user-agent": app.userAgent, referer: "https://example.com/" },
+      {
+        "user-agent": app.userAgent,
+        referer: "https://example.com/",
+        accept: "image/*",
+      },
+      { "user-agent": app.userAgent },
+    ]);
+  });
+
+  it("keeps headers a request sets itself", async () => {
+    await get("https://example.com/api", { referer: "https://example.com/x" });
+
+    expect(app.requests[0].headers?.["referer"]).toBe("https://example.com/x");
+  });
+
+  it("upgrades requests to HTTPS where the rule asks for it", async () => {
+    await get("http://example.com/page");
+    await get("http://cdn.example.net/a.webp");
+
+    expect(app.requests.map((x) => x.url)).toEqual([
+      "https://example.com/page",
+      "http://cdn.example.net/a.webp",
+    ]);
+  });
+
+  it("follows redirects to plain HTTP over HTTPS", async () => {
+    app.server
+      .on("https://example.com/old", {
+        status: 301,
+        headers: { Location: "http://example.com/new" },
+      })
+      .on("https://example.com/new", { body: "moved" });
+
+    const [, data] = await get("https://example.com/old");
+
+    expect(Application.arrayBufferToUTF8String(data)).toBe("moved");
+    expect(app.requests.at(-1)?.url).toBe("https://example.com/new");
+  });
+
+  it("refuses redirects to hosts the rule does not allow", async () => {
+    app.server
+      .on("https://example.com/a", {
+        status: 302,
+        headers: { location: "/b" },
+      })
+      .on("https://example.com/c", {
+        status: 302,
+        headers: { location: "https://mirror.example.org/c" },
+      })
+      .on("https://example.com/d", {
+        status: 302,
+        headers: { location: "https://ads.example.io/" },
+      });
+
+    await get("https://example.com/a");
+    await get("https://example.com/c");
+    await expect(get("https://example.com/d")).rejects.toThrow(
+      new RedirectBlockedError(
+        "https://example.com/d",
+        "https://ads.example.io/",
+      ),
+    );
+  });
+
+  describe("redirects", () => {
+    const redirect = (status: number, location: string) => ({
+      status,
+      headers: { location },
+    });
+
+    it("gives up on loops and long chains", async () => {
+      app.server
+        .on("https://example.com/loop/a", redirect(302, "b"))
+        .on("https://example.com/loop/b", redirect(302, "a"))
+        .on(/\/hop\/\d$/, (request) =>
+          redirect(302, String(Number(request.url.slice(-1)) + 1)),
+        );
+
+      await expect(get("https://example.com/loop/a")).rejects.toThrow(
+        new TooManyRedirectsError("https://example.com/loop/a", 1),
+      );
+      await expect(get("https://example.com/hop/1")).rejects.toThrow(
+        new TooManyRedirectsError("https://example.com/hop/1", 5),
+      );
+      expect(app.requests.at(-1)?.url).toBe("https://example.com/hop/6");
+    });
+
+    it("forwards cookies the site sets within the site only", async () => {
+      app.server
+        .on(
+          "https://example.com/login",
+          {
+            status: 303,
+            headers: { location: "/account" },
+            cookies: [{ name: "session", value: "abc", domain: "example.com" }],
+          },
+          "POST",
+        )
+        .on(
+          "https://example.com/account",
+          redirect(302, "https://mirror.example.org/"),
+        );
+
+      await Application.scheduleRequest({
+        url: "https://example.com/login",
+        method: "POST",
+        body: "user=a",
+        cookies: { lang: "en" },
+      });
+
+      expect(
+        app.requests.map((x) => [x.method, x.url, x.body, x.cookies]),
+      ).toEqual([
+        ["POST", "https://example.com/login", "user=a", { lang: "en" }],
+        [
+          "GET",
+          "https://example.com/account",
+          undefined,
+          { lang: "en", session: "abc" },
+        ],
+        ["GET", "https://mirror.example.org/", undefined, undefined],
+      ]);
+    });
+
+    it("repeats the request as is for 307 and 308", async () => {
+      app.server
+        .on("https://example.com/api", redirect(307, "/api/v2"), "POST")
+        .on("https://example.com/api/v2", { body: "ok" }, "POST");
+
+      await Application.scheduleRequest({
+        url: "https://example.com/api",
+        method: "POST",
+        body: "a=1",
+      });
+
+      expect(app.requests[1]).toMatchObject({ method: "POST", body: "a=1" });
+    });
+
+    it("reports permanent moves to another domain", async () => {
+      app.server
+        .on(
+          "https://example.com/old",
+          redirect(301, "https://mirror.example.org/old"),
+        )
+        .on(
+          "https://example.com/gone",
+          redirect(308, "https://example.io/gone"),
+        )
+        .on(
+          "https://example.com/www",
+          redirect(301, "https://www.example.com/"),
+        );
+
+      await get("https://example.com/old");
+      await get("https://example.com/www");
+      await expect(get("https://example.com/gone")).rejects.toThrow(
+        new SiteMovedError({
+          from: "https://example.com",
+          to: "https://example.io",
+        }),
+      );
+
+      expect(moves).toEqual([
+        { from: "https://example.com", to: "https://mirror.example.org" },
+        { from: "https://example.com", to: "https://example.io" },
+      ]);
+    });
+
+    it("follows a request for a URL another chain is passing through", async () => {
+      app.server
+        .on("https://example.com/a", redirect(302, "/b"))
+        .on("https://example.com/b", redirect(302, "/c"))
+        .on("https://example.com/c", { body: "end" });
+
+      const pages = await Promise.all([
+        get("https://example.com/a"),
+        get("https://example.com/b"),
+      ]);
+
+      expect(
+        pages.map(([, data]) => Application.arrayBufferToUTF8String(data)),
+      ).toEqual(["end", "end"]);
+      expect(app.requests.map((x) => x.url)).toEqual([
+        "https://example.com/a",
+        "https://example.com/b",
+        "https://example.com/b",
+        "https://example.com/c",
+        "https://example.com/c",
+      ]);
+    });
+
+    it("reports the status at the end of the chain", async () => {
+      app.server
+        .on("https://example.com/moved", redirect(302, "/missing"))
+        .on("https://example.com/missing", { status: 404 });
+
+      await expect(get("https://example.com/moved")).rejects.toThrow(
+        new RedirectFailedError("https://example.com/missing", 404),
+      );
+    });
+  });
+});
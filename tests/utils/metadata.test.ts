@@ -0,0 +1,70 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatCount,
+  normaliseRating,
+  parseCount,
+  publicationType,
+  releaseYear,
+  splitNames,
+  splitTitles,
+  tagSection,
+} from "../../src/utils/metadata";
+
+describe("metadata helpers", () => {
+  it("splits people on list separators", () => {
+    expect(splitNames("Chugong, DUBU; Jang Sung-Rak & Gi So-Ryeong")).toEqual([
+      "Chugong",
+      "DUBU",
+      "Jang Sung-Rak",
+      "Gi So-Ryeong",
+    ]);
+    expect(splitNames("")).toEqual([]);
+  });
+
+  it("splits alternative titles without breaking on commas", () => {
+    expect(
+      splitTitles("Sha-keu • 샤크; Hello, World | shark", "Shark"),
+    ).toEqual(["Sha-keu", "샤크", "Hello, World"]);
+  });
+
+  it("finds the publication type", () => {
+    expect(publicationType(["Action", "manhwa"])).toBe("Manhwa");
+    expect(publicationType(["Action"])).toBeUndefined();
+  });
+
+  it("parses release years", () => {
+    expect(releaseYear("Released in 2018")).toBe(2018);
+    expect(releaseYear("Unknown")).toBeUndefined();
+  });
+
+  it.each([
+    ["15,234", 15234],
+    ["34.5K", 34500],
+    ["1.2M views", 1200000],
+    ["n/a", undefined],
+  ])("parses the count %s", (text, expected) => {
+    expect(parseCount(text)).toBe(expected);
+  });
+
+  it("formats counts", () => {
+    expect(formatCount(999)).toBe("999");
+    expect(formatCount(34500)).toBe("34.5K");
+    expect(formatCount(2000000)).toBe("2M");
+  });
+
+  it("normalises ratings to a 0 to 1 scale", () => {
+    expect(normaliseRating("4.5", 5)).toBe(0.9);
+    expect(normaliseRating("9.7", 10)).toBe(0.97);
+    expect(normaliseRating("7", 5)).toBe(1);
+    expect(normaliseRating("", 5)).toBeUndefined();
+  });
+
+  it("builds tag groups with prefixed ids", () => {
+    expect(tagSection("authors", "Authors", ["Kim Woo-Seob", ""])).toEqual({
+      id: "authors",
+      title: "Authors",
+      tags: [{ id: "authors:kim-woo-seob", title: "Kim Woo-Seob" }],
+    });
+    expect(tagSection("authors", "Authors", [])).toBeUndefined();
+  });
+});
@@ -0,0 +1,153 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { LoginError } from "../../src/utils/account-session";
+import { HostRulesInterceptor } from "../../src/utils/host-rules";
+import {
+  InvalidMirrorError,
+  MirrorList,
+  mirrorOrigin,
+} from "../../src/utils/mirrors";
+import { SiteBusyError } from "../../src/utils/rate-limiter";
+import { installApplication, MockApplication } from "../harness/application";
+import { FixtureServer } from "../harness/fixtures";
+
+describe("mirrorOrigin", () => {
+  it("reduces an address to its origin", () => {
+    expect(mirrorOrigin(" Example.org/series/ ")).toBe("https://example.org");
+    expect(mirrorOrigin("http://example.org")).toBe("http://example.org");
+  });
+
+  it("rejects what is not a site address", () => {
+    expect(() => mirrorOrigin("example")).toThrow(InvalidMirrorError);
+    expect(() => mirrorOrigin("ftp://example.org")).toThrow(InvalidMirrorError);
+  });
+});
+
+describe("MirrorList", () => {
+  let app: MockApplication;
+  let mirrors: MirrorList;
+  let onChange: () => void;
+
+  const newMirrors = () =>
+    new MirrorList({
+      known: ["https://example.com", "https://example.net"],
+      healthPath: "/health",
+      onChange,
+    });
+
+  beforeEach(() => {
+    app = installApplication(new FixtureServer());
+    onChange = vi.fn();
+    mirrors = newMirrors();
+  });
+
+  it("uses the first known mirror until another is picked", () => {
+    expect(mirrors.active).toBe("https://example.com");
+
+    mirrors.use("example.org");
+
+    expect(newMirrors().active).toBe("https://example.org");
+    expect(mirrors.all).toEqual([
+      "https://example.com",
+      "https://example.net",
+      "https://example.org",
+    ]);
+    expect(onChange).toHaveBeenCalled();
+  });
+
+  it("goes back to the known mirrors on reset", () => {
+    mirrors.use("example.org");
+    mirrors.reset();
+
+    expect(mirrors.active).toBe("https://example.com");
+    expect(mirrors.all).toHaveLength(2);
+  });
+
+  it("moves site URLs to the active mirror", () => {
+    mirrors.use("https://example.net");
+
+    expect(mirrors.rebase("https://example.com/series/abc/?page=2")).toBe(
+      "https://example.net/series/abc/?page=2",
+    );
+    expect(mirrors.rebase("https://cdn.example.com/a.webp")).toBe(
+      "https://cdn.example.com/a.webp",
+    );
+  });
+
+  it("picks the first mirror that answers", async () => {
+    app.server
+      .on("https://example.com/health", { status: 521 })
+      .on("https://example.net/health", { body: "ok" });
+
+    expect(await mirrors.findWorking()).toBe("https://example.net");
+    expect(mirrors.active).toBe("https://example.net");
+  });
+
+  it("does not pick a domain a dead mirror redirects to", async () => {
+    const moves: string[] = [];
+    new HostRulesInterceptor(
+      "main",
+      [{ hosts: ["example.com"], allowedRedirects: [] }],
+      { onDomainMove: (move) => moves.push(move.to) },
+    ).registerInterceptor();
+    app.server
+      .on("https://example.com/health", {
+        status: 301,
+        headers: { location: "https://example.io/health" },
+      })
+      .on("https://example.io/health", { body: "ok" });
+
+    // example.net is not served at all
+    expect(await mirrors.findWorking()).toBeUndefined();
+    expect(moves).toEqual(["https://example.io"]);
+    expect(mirrors.all).not.toContain("https://example.io");
+    expect(app.requests.map((x) => x.url)).not.toContain(
+      "https://example.io/health",
+    );
+  });
+
+  it("retries a failed site request on a working mirror", async () => {
+    app.server
+      .on("https://example.com/health", { status: 503 })
+      .on("https://example.net/health", { body: "ok" });
+    const run = vi.fn(async (request: { url: string }) => {
+      if (request.url.startsWith("https://example.com")) {
+        throw new Error("Connection refused");
+      }
+      return request.url;
+    });
+
+    const url = await mirrors.withFallback(
+      { url: "https://example.com/series/abc/", method: "GET" },
+      run,
+    );
+
+    expect(url).toBe("https://example.net/series/abc/");
+  });
+
+  it("leaves failures alone with automatic switching off", async () => {
+    mirrors.autoSwitch.set(false);
+    const error = new Error("Connection refused");
+
+    await expect(
+      mirrors.withFallback(
+        { url: "https://example.com/series/abc/", method: "GET" },
+        () => Promise.reject(error),
+      ),
+    ).rejects.toBe(error);
+    expect(app.requests).toEqual([]);
+  });
+
+  it("only looks for another mirror when this one cannot be reached", async () => {
+    const request = { url: "https://example.com/series/abc/", method: "GET" };
+
+    for (const error of [
+      new SiteBusyError("example.com", 429),
+      new LoginError("Example"),
+    ]) {
+      await expect(
+        mirrors.withFallback(request, () => Promise.reject(error)),
+      ).rejects.toBe(error);
+    }
+    expect(app.requests).toEqual([]);
+  });
+});
@@ -0,0 +1,162 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { HostRulesInterceptor } from "../../src/utils/host-rules";
+import {
+  AdaptiveRateLimiter,
+  SiteBusyError,
+} from "../../src/utils/rate-limiter";
+import { installApplication, MockApplication } from "../harness/application";
+import { FixtureResponse, FixtureServer } from "../harness/fixtures";
+
+describe("AdaptiveRateLimiter", () => {
+  let app: MockApplication;
+  let limiter: AdaptiveRateLimiter;
+  let sleeps: number[];
+
+  // Answers a URL with the given responses in turn, then with 200
+  const respondWith = (url: string, ...responses: FixtureResponse[]) => {
+    app.server.on(url, () => responses.shift() ?? { body: "ok" });
+  };
+
+  const get = (url: string) => limiter.schedule({ url, method: "GET" });
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    app = installApplication(new FixtureServer());
+    sleeps = [];
+    vi.spyOn(app, "sleep").mockImplementation(async (seconds) => {
+      sleeps.push(seconds);
+      vi.advanceTimersByTime(seconds * 1000);
+    });
+
+    limiter = new AdaptiveRateLimiter("rateLimiter", {
+      numberOfRequests: 5,
+      numberOfImageRequests: 20,
+      bufferInterval: 1,
+    });
+    limiter.random = () => 0;
+    limiter.registerInterceptor();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("paces each host, with pages and images on separate budgets", async () => {
+    respondWith("https://mangabuddy.com/home");
+    respondWith("https://mangabuddy.com/latest");
+    respondWith("https://kaynscan.com/");
+    respondWith("https://s1.mbcdnv1.xyz/a/1.jpg");
+    respondWith("https://s1.mbcdnv1.xyz/a/2.jpg");
+
+    await get("https://mangabuddy.com/home");
+    await get("https://s1.mbcdnv1.xyz/a/1.jpg");
+    await get("https://kaynscan.com/");
+    await get("https://s1.mbcdnv1.xyz/a/2.jpg");
+    await get("https://mangabuddy.com/latest");
+
+    expect(sleeps).toEqual([0.05, 0.15]);
+  });
+
+  it("waits out Retry-After before retrying", async () => {
+    respondWith("https://mangabuddy.com/home", {
+      status: 429,
+      headers: { "Retry-After": "7" },
+    });
+
+    const [response] = await get("https://mangabuddy.com/home");
+
+    expect(response.status).toBe(200);
+    expect(sleeps).toEqual([7]);
+    expect(app.requests).toHaveLength(2);
+  });
+
+  it("backs off exponentially while the site keeps failing", async () => {
+    respondWith(
+      "https://kaynscan.com/",
+      { status: 503 },
+      { status: 502 },
+      { status: 503 },
+    );
+
+    const [response] = await get("https://kaynscan.com/");
+
+    expect(response.status).toBe(200);
+    expect(sleeps).toEqual([0.5, 1, 2]);
+  });
+
+  it("retries errors Cloudflare passes on from the site", async () => {
+    const cloudflare503 = {
+      status: 503,
+      headers: {
+        server: "cloudflare",
+        "cf-ray": "8c1f2a3b4d5e6f70-AMS",
+        "content-type": "text/html; charset=UTF-8",
+      },
+      body: "<title>503 Service Temporarily Unavailable</title>",
+    };
+    // Registered again so it runs after the host rules, as in the sources
+    new HostRulesInterceptor("main", []).registerInterceptor();
+    limiter.registerInterceptor();
+    respondWith("https://kaynscan.com/", cloudflare503, cloudflare503);
+
+    const [response] = await get("https://kaynscan.com/");
+
+    expect(response.status).toBe(200);
+    expect(sleeps).toEqual([0.5, 1]);
+  });
+
+  it("adds jitter to the backoff", async () => {
+    limiter.random = () => 1;
+    respondWith("https://kaynscan.com/", { status: 503 });
+
+    await get("https://kaynscan.com/");
+
+    expect(sleeps).toEqual([1]);
+  });
+
+  it("gives up after the last retry", async () => {
+    app.server.on("https://mangabuddy.com/home", { status: 429 });
+
+    await expect(get("https://mangabuddy.com/home")).rejects.toThrow(
+      new SiteBusyError("mangabuddy.com", 429),
+    );
+    expect(app.requests).toHaveLength(4);
+  });
+
+  it("does not retry requests that are not idempotent", async () => {
+    app.server.on("https://mangabuddy.com/api/bookmark", { status: 503 });
+
+    await expect(
+      limiter.schedule({
+        url: "https://mangabuddy.com/api/bookmark",
+        method: "POST",
+      }),
+    ).rejects.toBeInstanceOf(SiteBusyError);
+    expect(app.requests).toHaveLength(1);
+  });
+
+  it("does not wait out a Retry-After measured in hours", async () => {
+    app.server.on("https://mangabuddy.com/home", {
+      status: 429,
+      headers: { "retry-after": "3600" },
+    });
+
+    await expect(get("https://mangabuddy.com/home")).rejects.toBeInstanceOf(
+      SiteBusyError,
+    );
+    expect(app.requests).toHaveLength(1);
+  });
+
+  it("slows a host down after repeated throttling and recovers", async () => {
+    const url = "https://mangabuddy.com/home";
+    respondWith(url, { status: 429 }, { status: 429 }, { status: 429 });
+
+    await get(url);
+    expect(limiter.currentRate(url)).toBe(1.25);
+    expect(limiter.currentRate("https://kaynscan.com/")).toBe(5);
+    expect(limiter.currentRate("https://mangabuddy.com/cover.png")).toBe(20);
+
+    for (let i = 1; i < 20; i++) await get(url);
+    expect(limiter.currentRate(url)).toBe(2.5);
+  });
+});
@@ -0,0 +1,49 @@
+import { describe, expect, it } from "vitest";
+import {
+  redirectTarget,
+  resolveLocation,
+  sameSite,
+} from "../../src/utils/redirects";
+
+describe("resolveLocation", () => {
+  const base = "https://kaynscan.com/series/abc/chapters?page=2#top";
+
+  it.each([
+    ["https://kaynscan.org/series/abc/", "https://kaynscan.org/series/abc/"],
+    ["//cdn.meowing.org/a.webp", "https://cdn.meowing.org/a.webp"],
+    ["/login?next=%2F", "https://kaynscan.com/login?next=%2F"],
+    ["?page=3", "https://kaynscan.com/series/abc/chapters?page=3"],
+    ["#latest", "https://kaynscan.com/series/abc/chapters?page=2#latest"],
+    ["list", "https://kaynscan.com/series/abc/list"],
+    ["./list/?all=1", "https://kaynscan.com/series/abc/list/?all=1"],
+    ["../../home", "https://kaynscan.com/home"],
+    ["../../../../home", "https://kaynscan.com/home"],
+  ])("resolves %s", (location, expected) => {
+    expect(resolveLocation(base, location)).toBe(expected);
+  });
+});
+
+describe("redirectTarget", () => {
+  const response = (status: number, headers: Record<string, string>) => ({
+    url: "https://kaynscan.com/",
+    status,
+    headers,
+    cookies: [],
+  });
+
+  it("reads the Location of redirects only", () => {
+    expect(redirectTarget(response(302, { Location: " /new " }))).toBe("/new");
+    expect(redirectTarget(response(304, { location: "/new" }))).toBeUndefined();
+    expect(redirectTarget(response(200, { location: "/new" }))).toBeUndefined();
+    expect(redirectTarget(response(301, {}))).toBeUndefined();
+  });
+});
+
+describe("sameSite", () => {
+  it("treats subdomains as the same site", () => {
+    expect(sameSite("kaynscan.com", "www.kaynscan.com")).toBe(true);
+    expect(sameSite("www.kaynscan.com", "kaynscan.com")).toBe(true);
+    expect(sameSite("kaynscan.com", "kaynscan.org")).toBe(false);
+    expect(sameSite("kaynscan.com", "notkaynscan.com")).toBe(false);
+  });
+});
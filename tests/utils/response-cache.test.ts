@@ -0,0 +1,115 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { ResponseCache } from "../../src/utils/response-cache";
+import { installApplication, MockApplication } from "../harness/application";
+
+describe("ResponseCache", () => {
+  let app: MockApplication;
+  let cache: ResponseCache;
+
+  const get = (url: string) => ({ url, method: "GET" });
+
+  const newCache = () =>
+    new ResponseCache([
+      { pattern: /^https:\/\/example\.com\/genres$/, ttl: 3600, persist: true },
+      { pattern: /^https:\/\/example\.com\/series\/[^/]+\/$/, ttl: 60 },
+      { pattern: /^https:\/\/example\.com\/search\?/, ttl: 30 },
+    ]);
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ["Date"] });
+    app = installApplication();
+    cache = newCache();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("only caches GET requests to listed routes", () => {
+    cache.set(get("https://example.com/series/a/"), "series");
+    cache.set(get("https://example.com/latest"), "latest");
+    cache.set(
+      { url: "https://example.com/series/b/", method: "POST", body: "x=1" },
+      "posted",
+    );
+
+    expect(cache.get(get("https://example.com/series/a/"))).toBe("series");
+    expect(cache.get(get("https://example.com/latest"))).toBeUndefined();
+    expect(cache.get(get("https://example.com/series/b/"))).toBeUndefined();
+  });
+
+  it("keys on the normalised URL", () => {
+    cache.set(get("https://example.com/search?q=solo&page=1"), "results");
+
+    expect(cache.get(get("HTTPS://Example.com/search?page=1&q=solo#top"))).toBe(
+      "results",
+    );
+    expect(
+      cache.get(get("https://example.com/search?page=2&q=solo")),
+    ).toBeUndefined();
+  });
+
+  it("expires entries after their route's TTL", () => {
+    cache.set(get("https://example.com/series/a/"), "series");
+    cache.set(get("https://example.com/search?q=a"), "results");
+
+    vi.advanceTimersByTime(31_000);
+
+    expect(cache.get(get("https://example.com/series/a/"))).toBe("series");
+    expect(cache.get(get("https://example.com/search?q=a"))).toBeUndefined();
+  });
+
+  it("keeps persisted routes across restarts", () => {
+    cache.set(get("https://example.com/genres"), "genres");
+    cache.set(get("https://example.com/series/a/"), "series");
+
+    const restarted = newCache();
+
+    expect(restarted.get(get("https://example.com/genres"))).toBe("genres");
+    expect(restarted.get(get("https://example.com/series/a/"))).toBeUndefined();
+
+    vi.advanceTimersByTime(3_600_000);
+    expect(newCache().get(get("https://example.com/genres"))).toBeUndefined();
+  });
+
+  it("drops stale entries when caching another", () => {
+    cache.set(get("https://example.com/genres"), "genres");
+    vi.advanceTimersByTime(3_600_000);
+
+    cache.set(get("https://example.com/series/a/"), "series");
+
+    expect(app.getState("response_cache")).toEqual({});
+  });
+
+  it("keeps only the newest entries", () => {
+    for (let i = 0; i <= 50; i++) {
+      cache.set(get(`https://example.com/series/${i}/`), `series ${i}`);
+    }
+    cache.set(get("https://example.com/series/1/"), "series 1 again");
+    cache.set(get("https://example.com/series/51/"), "series 51");
+
+    expect(cache.get(get("https://example.com/series/0/"))).toBeUndefined();
+    expect(cache.get(get("https://example.com/series/1/"))).toBe(
+      "series 1 again",
+    );
+    expect(cache.get(get("https://example.com/series/2/"))).toBeUndefined();
+    expect(cache.get(get("https://example.com/series/51/"))).toBe("series 51");
+  });
+
+  it("invalidates by URL, by pattern or entirely", () => {
+    cache.set(get("https://example.com/genres"), "genres");
+    cache.set(get("https://example.com/series/a/"), "a");
+    cache.set(get("https://example.com/series/b/"), "b");
+
+    cache.invalidate("https://example.com/series/a/#chapters");
+    expect(cache.get(get("https://example.com/series/a/"))).toBeUndefined();
+    expect(cache.get(get("https://example.com/series/b/"))).toBe("b");
+
+    cache.invalidate(/\/series\//);
+    expect(cache.get(get("https://example.com/series/b/"))).toBeUndefined();
+
+    cache.clear();
+    expect(cache.get(get("https://example.com/genres"))).toBeUndefined();
+    expect(app.getState("response_cache")).toEqual({});
+  });
+});
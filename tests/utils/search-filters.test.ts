@@ -0,0 +1,148 @@
+import { SearchQuery } from "@paperback/types";
+import { describe, expect, it } from "vitest";
+import { SearchFilterMapping } from "../../src/utils/search-filters";
+import { URLBuilder } from "../../src/utils/url-builder/base";
+
+const mapping = new SearchFilterMapping([
+  {
+    type: "multiselect",
+    id: "genres",
+    title: "Genres",
+    options: async () => [
+      { id: "action", value: "Action" },
+      { id: "drama", value: "Drama" },
+    ],
+    includeParam: "genre",
+    excludeParam: "exclude",
+    allowExclusion: true,
+  },
+  {
+    type: "dropdown",
+    id: "status",
+    title: "Status",
+    options: [
+      { id: "all", value: "All" },
+      { id: "ongoing", value: "Ongoing" },
+    ],
+    default: "all",
+    param: "status",
+    omit: ["all"],
+  },
+  {
+    type: "dropdown",
+    id: "sort",
+    title: "Sort",
+    options: [
+      { id: "views", value: "Views" },
+      { id: "latest", value: "Latest" },
+    ],
+    default: "views",
+    param: "order",
+  },
+]);
+
+const search = (query: SearchQuery) =>
+  mapping.apply(query, new URLBuilder("https://example.com/search")).build();
+
+describe("SearchFilterMapping", () => {
+  it("builds the filters shown in the app from the declarations", async () => {
+    expect(await mapping.getSearchFilters()).toEqual([
+      {
+        id: "genres",
+        type: "multiselect",
+        options: [
+          { id: "action", value: "Action" },
+          { id: "drama", value: "Drama" },
+        ],
+        allowExclusion: true,
+        value: {},
+        title: "Genres",
+        allowEmptySelection: false,
+        maximum: undefined,
+      },
+      {
+        id: "status",
+        type: "dropdown",
+        options: [
+          { id: "all", value: "All" },
+          { id: "ongoing", value: "Ongoing" },
+        ],
+        value: "all",
+        title: "Status",
+      },
+      {
+        id: "sort",
+        type: "dropdown",
+        options: [
+          { id: "views", value: "Views" },
+          { id: "latest", value: "Latest" },
+        ],
+        value: "views",
+        title: "Sort",
+      },
+    ]);
+  });
+
+  it("falls back to defaults for missing filters", () => {
+    expect(search({ title: "", filters: [] })).toBe(
+      "https://example.com/search?order=views",
+    );
+  });
+
+  it("reads lazy defaults when building URLs", async () => {
+    let sort = "latest";
+    const lazy = new SearchFilterMapping([
+      {
+        type: "dropdown",
+        id: "sort",
+        title: "Sort",
+        options: [],
+        default: () => sort,
+        param: "order",
+      },
+    ]);
+    const url = () =>
+      lazy
+        .apply({ title: "", filters: [] }, new URLBuilder("https://x.com"))
+        .build();
+
+    expect(url()).toBe("https://x.com?order=latest");
+    sort = "views";
+    expect(url()).toBe("https://x.com?order=views");
+    expect((await lazy.getSearchFilters())[0].value).toBe("views");
+  });
+
+  it("maps selections to query parameters", () => {
+    expect(
+      search({
+        title: "",
+        filters: [
+          {
+            id: "genres",
+            value: { drama: "included", action: "included", ecchi: "excluded" },
+          },
+          { id: "status", value: "ongoing" },
+          { id: "sort", value: "latest" },
+        ],
+      }),
+    ).toBe(
+      "https://example.com/search?genre=action&genre=drama&exclude=ecchi&status=ongoing&order=latest",
+    );
+  });
+
+  it("reports the selected values", () => {
+    const query: SearchQuery = {
+      title: "",
+      filters: [{ id: "genres", value: { b: "excluded", a: "excluded" } }],
+    };
+
+    expect(mapping.multiselectValue(query, "genres")).toEqual({
+      included: [],
+      excluded: ["a", "b"],
+    });
+    expect(mapping.dropdownValue(query, "status")).toBe("all");
+    expect(() => mapping.dropdownValue(query, "genres")).toThrow(
+      'No dropdown search filter declared with id "genres"',
+    );
+  });
+});
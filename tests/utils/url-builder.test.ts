@@ -0,0 +1,86 @@
+import { describe, expect, it } from "vitest";
+import { URLBuilder as ArrayVariantURLBuilder } from "../../src/utils/url-builder/array-query-variant";
+import { URLBuilder } from "../../src/utils/url-builder/base";
+
+describe("URLBuilder", () => {
+  it("keeps every value of a repeated key", () => {
+    const url = new URLBuilder("https://mangabuddy.com")
+      .addPath("search")
+      .addQuery("genre[]", "action")
+      .addQuery("genre[]", "drama")
+      .build();
+
+    expect(url).toBe(
+      "https://mangabuddy.com/search?genre%5B%5D=action&genre%5B%5D=drama",
+    );
+  });
+
+  it("percent-encodes keys and values", () => {
+    const url = new URLBuilder("https://mangabuddy.com/")
+      .addPath("/search/")
+      .addQuery("q", "Tom & Jerry #2 — 東京")
+      .build();
+
+    expect(url).toBe(
+      "https://mangabuddy.com/search?q=Tom%20%26%20Jerry%20%232%20%E2%80%94%20%E6%9D%B1%E4%BA%AC",
+    );
+  });
+
+  it("skips empty string values", () => {
+    const url = new URLBuilder("https://mangabuddy.com")
+      .addQuery("q", "")
+      .addQuery("page", 1)
+      .build();
+
+    expect(url).toBe("https://mangabuddy.com?page=1");
+  });
+
+  it("formats arrays and objects", () => {
+    const url = new URLBuilder("https://example.com")
+      .addQuery("tags", ["a b", "c"])
+      .addQuery("order", { rating: "desc", skipped: undefined })
+      .build();
+
+    expect(url).toBe(
+      "https://example.com?tags%5B%5D=a%20b&tags%5B%5D=c&order%5Brating%5D=desc",
+    );
+  });
+
+  it("replaces and removes parameters", () => {
+    const builder = new URLBuilder("https://example.com")
+      .addQuery("page", 1)
+      .addQuery("genre", "action")
+      .addQuery("genre", "drama")
+      .addQuery("sort", "views");
+
+    builder.setQuery("genre", "romance").removeQuery("sort");
+
+    expect(builder.getQuery("genre")).toEqual(["romance"]);
+    expect(builder.build()).toBe("https://example.com?page=1&genre=romance");
+  });
+
+  it("parses an existing URL into a builder", () => {
+    const builder = URLBuilder.fromUrl(
+      "https://mangabuddy.com/search?q=Tom+%26+Jerry&genre%5B%5D=action&genre[]=drama#top",
+    );
+
+    expect(builder.getQuery("q")).toEqual(["Tom & Jerry"]);
+    expect(builder.getQuery("genre[]")).toEqual(["action", "drama"]);
+
+    builder.setQuery("page", 2);
+    expect(builder.build()).toBe(
+      "https://mangabuddy.com/search?q=Tom%20%26%20Jerry&genre%5B%5D=action&genre%5B%5D=drama&page=2",
+    );
+  });
+
+  it("repeats the bare key for arrays in the array query variant", () => {
+    const builder = ArrayVariantURLBuilder.fromUrl(
+      "https://kaynscan.com/series",
+    ).addQuery("genre", ["Action", "Sci-Fi & Fantasy"]);
+
+    expect(builder).toBeInstanceOf(ArrayVariantURLBuilder);
+    expect(builder.build()).toBe(
+      "https://kaynscan.com/series?genre=Action&genre=Sci-Fi%20%26%20Fantasy",
+    );
+  });
+});